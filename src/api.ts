@@ -0,0 +1,750 @@
+// ─── Library API ────────────────────────────────────────────────────────────
+//
+// The census as async functions for embedding in other tools. Each step takes
+// an options object and returns plain Symbol / FeatureReport objects:
+//
+//   extractSymbols → classifySymbols → getChurn → aggregateFeatures
+//
+// runCensus() chains them with the optional analyses (tests, coupling,
+// ownership, trends, imports, size) exactly as the CLI does; the CLI in
+// census.ts only parses arguments and renders its result. Nothing here exits
+// the process or writes to the console: failures throw, and progress lines
+// and warnings go to the optional `log` and `onWarning` callbacks.
+
+import path from 'path';
+import type {
+  AssignmentSummary, Assignments, CensusSnapshot, CtagsEntry, GitRef, HistoryPoint, HistoryReport, SymbolCounts, FeatureConfig, FeatureReport, FileChurn, FileMetrics, HotFile, HotSymbol,
+  LanguageConfig, LanguageReport, OwnershipSummary, PackageReport, SizedSymbol, Symbol, TestSummary, UnusedSummary,
+} from './types';
+import { createClassifier, findOverlaps, type Classifier, type RuleOverlap } from './classify';
+import { getCommitHistory, summarizeChurn, attributeSymbolChurn, hasChurnWindow, describeChurnWindow, type ChurnWindow, type CommitRecord } from './churn';
+import { analyzeCoupling, type CouplingReport } from './coupling';
+import { analyzeAuthorship } from './authors';
+import { loadConfig, findUnmatchedRules } from './config';
+import { findCtags, runCtags, filterSymbols as filterEntries, ctagsVersion, ctagsLanguages, ctagsOptions, DEFAULT_EXCLUDES } from './ctags';
+import { mergeLanguages, languageExtensions, aggregateLanguages } from './languages';
+import { extractTypeScript, listSourceFiles, typeScriptVersion, TS_EXTENSIONS } from './extract-ts';
+import { extractWithCache } from './cache';
+import { analyzeTrends, TREND_INTERVALS, type TrendInterval } from './trends';
+import { analyzeDependencies, type DependencyReport } from './imports';
+import { detectWorkspaces, createPackageResolver, aggregatePackages, type WorkspacePackage } from './workspaces';
+import { createTestMatcher, mapTests, applyTestCounts, DEFAULT_TEST_PATTERNS, TEST_MAPPINGS, type TestMapping } from './test-map';
+import { measureSymbols, applyFileRisk, findMegaFiles, largestSymbols } from './metrics';
+import { findUnused, applyUnusedCounts } from './unused';
+import { loadCodeowners, applyOwnership } from './codeowners';
+import { createSubFeatureClassifier, applySubFeatures } from './subfeatures';
+import { resolveRef, withWorktree, periodicRefs } from './history';
+import { createAssignedClassifier, loadAssignments, summarizeAssignments, type AssignedClassifier } from './assignments';
+
+export type Extractor = 'auto' | 'ctags' | 'ts';
+
+export const EXTRACTORS: Extractor[] = ['auto', 'ctags', 'ts'];
+
+export interface LogOptions {
+  log?: (message: string) => void;        // progress lines; silent when absent
+  onWarning?: (message: string) => void;  // recoverable problems; silent when absent
+}
+
+export interface ExtractOptions extends LogOptions {
+  root: string;
+  extractor?: Extractor;       // default "auto": ctags when installed, else the TypeScript parser
+  excludes?: string[];         // --exclude globs
+  cacheDir?: string | null;    // extraction cache; none when absent
+  cacheKey?: string;           // which cache file to use (default: root)
+  languages?: Record<string, LanguageConfig>;  // config `languages` overrides
+  files?: string[];            // paths relative to root to extract instead of the whole tree
+}
+
+export interface FilterOptions {
+  entries: CtagsEntry[];       // raw ctags JSON entries
+  root: string;
+  languages?: Record<string, LanguageConfig>;
+}
+
+export interface ClassifyOptions {
+  symbols: Symbol[];
+  config: FeatureConfig;
+  assignments?: Assignments;   // pinned features, layered over the rules
+  explain?: boolean;           // also report symbols matched by more than one rule
+}
+
+export interface ClassifyResult {
+  symbols: Symbol[];           // the input symbols, with feature and featureName (and subFeature) set
+  classifier: Classifier;      // rules, plus the assignments when given
+  unmatchedRules: string[];    // ids of rules matching no extracted file or symbol
+  overlaps: RuleOverlap[];     // with explain
+}
+
+export interface ChurnOptions extends LogOptions {
+  root: string;
+  since?: string | null;
+  until?: string | null;
+  revRange?: string | null;
+  excludes?: string[];         // excludeChurn globs
+  mailmap?: string | null;
+  symbols?: Symbol[];          // when given, churn is attributed to their line ranges
+}
+
+export interface ChurnResult {
+  history: CommitRecord[];     // newest first
+  files: FileChurn[];
+}
+
+export interface AggregateOptions {
+  symbols: Symbol[];           // classified
+  config: FeatureConfig;
+  churn?: FileChurn[];         // adds commits, churn, hotspot scores and top files
+  classifier?: Classifier;     // from classifySymbols; built from config when absent
+}
+
+export interface CensusOptions extends LogOptions {
+  root: string;
+  config?: FeatureConfig | string;  // a config object, or the path of a JSON/YAML config
+  extractor?: Extractor;
+  excludes?: string[];              // added to both excludePaths and excludeChurn
+  cacheDir?: string | null;
+  since?: string | null;
+  until?: string | null;
+  revRange?: string | null;
+  mailmap?: string | null;
+  coupling?: boolean;               // needs a churn window
+  authors?: boolean;                // needs a churn window
+  authorsHalfLife?: number | null;  // days
+  interval?: TrendInterval | null;  // needs a churn window
+  dependencies?: boolean;
+  tests?: boolean;
+  testMapping?: TestMapping;        // default "mirror"
+  packages?: boolean;               // aggregate packages even when no workspaces are detected
+  unused?: boolean;                 // search for likely-unused symbols
+  assignments?: Assignments | string;  // an assignments object, or the path of a JSON/YAML assignments file
+  at?: string | null;               // analyze this git ref (in a temporary worktree) instead of the working tree
+  codeowners?: string | false;      // CODEOWNERS file; found in the repo when absent, skipped when false
+  explain?: boolean;
+}
+
+export interface HistoryOptions extends LogOptions {
+  root: string;
+  config?: FeatureConfig | string;
+  refs?: string[];                  // explicit refs, charted oldest commit first
+  every?: TrendInterval | null;     // or one ref per period of HEAD's first-parent history
+  since?: string | null;            // bounds for `every`
+  until?: string | null;
+  extractor?: Extractor;
+  excludes?: string[];
+  cacheDir?: string | null;         // shared by every ref: unchanged files are extracted once
+  assignments?: Assignments | string;
+}
+
+export interface CensusResult {
+  root: string;
+  at: GitRef | null;                // with at: the commit analyzed
+  config: FeatureConfig;
+  churnWindow: ChurnWindow;
+  hasChurn: boolean;
+  interval: TrendInterval | null;
+  symbols: Symbol[];
+  testSymbols: Symbol[];
+  features: FeatureReport[];        // hottest first with churn, else largest first
+  totals: { symbols: number; functions: number; methods: number; classes: number };
+  uncategorized: number;
+  coveragePct: string;
+  overlaps: RuleOverlap[] | null;  // with explain
+  churn: FileChurn[];
+  hotFiles: HotFile[];
+  hotSymbols: HotSymbol[];
+  coupling: CouplingReport | null;
+  dependencies: DependencyReport | null;
+  languages: LanguageReport[];
+  tests: TestSummary | null;
+  unused: UnusedSummary | null;
+  assignments: AssignmentSummary | null;
+  codeowners: OwnershipSummary | null;  // when a CODEOWNERS file was found or given
+  workspaces: WorkspacePackage[];
+  packages: PackageReport[] | null;
+  files: FileMetrics[];
+  largestSymbols: SizedSymbol[];
+  megaFiles: FileMetrics[];
+  riskiestFiles: FileMetrics[];
+}
+
+const noop = () => {};
+
+/**
+ * Extracts functions, methods and classes: ctags plus filtering, or the
+ * TypeScript parser when ctags is missing under "auto". With a cache
+ * directory, only changed files are parsed.
+ */
+export async function extractSymbols(options: ExtractOptions): Promise<Symbol[]> {
+  const { root, extractor = 'auto', excludes = [], cacheDir = null, files: only } = options;
+  const cacheKey = options.cacheKey || path.resolve(root);
+  const log = options.log || noop;
+  const warn = options.onWarning || noop;
+  if (!EXTRACTORS.includes(extractor)) {
+    throw new Error(`unknown extractor "${extractor}" (expected auto, ctags or ts)`);
+  }
+  const absRoot = path.resolve(root);
+  const languages = mergeLanguages(options.languages);
+  const ctagsBin = extractor === 'ts' ? null : findCtags();
+  let symbols: Symbol[];
+  const { options: ctagsArgs, missing } = ctagsBin ? ctagsOptions(languages, ctagsLanguages(ctagsBin)) : { options: [], missing: [] };
+  if (missing.length > 0) {
+    warn(`this ctags build has no parser for ${missing.join(', ')}; those files are skipped`);
+  }
+  // Cached symbols depend on the language table and the excludes as well as the extractor
+  const settings = [JSON.stringify(languages), ...DEFAULT_EXCLUDES, ...excludes];
+  if (ctagsBin && cacheDir) {
+    log(`Running ctags on ${absRoot} (cache: ${cacheDir})...`);
+    const files = only || listSourceFiles(absRoot, languageExtensions(languages), excludes);
+    const fingerprint = ['ctags', ctagsVersion(ctagsBin), ...ctagsArgs, ...settings].join('\n');
+    const result = extractWithCache(absRoot, files, cacheDir, fingerprint, changed =>
+      filterEntries(runCtags(ctagsBin, absRoot, excludes, ctagsArgs, changed.map(f => path.join(absRoot, f))), absRoot, languages), cacheKey);
+    symbols = result.symbols;
+    if (result.stats.writeError) warn(`could not write extraction cache: ${result.stats.writeError}`);
+    log(`  ${result.stats.hits.toLocaleString()} files cached, ${result.stats.misses.toLocaleString()} re-extracted`);
+  } else if (ctagsBin) {
+    log(`Running ctags on ${absRoot}...`);
+    const rawEntries = runCtags(ctagsBin, absRoot, excludes, ctagsArgs, only?.map(f => path.join(absRoot, f)));
+    log(`  ctags found ${rawEntries.length.toLocaleString()} raw entries`);
+    symbols = filterEntries(rawEntries, absRoot, languages);
+  } else {
+    if (extractor === 'ctags') {
+      throw new Error('universal-ctags not found. Install with: brew install universal-ctags');
+    }
+    if (extractor === 'auto') {
+      log('universal-ctags not found; using the TypeScript extractor (TS/JS files only)');
+    }
+    log(`Parsing TypeScript/JavaScript in ${absRoot}...`);
+    const onlyTs = only?.filter(f => TS_EXTENSIONS.some(ext => f.endsWith(ext)));
+    if (cacheDir) {
+      const files = onlyTs || listSourceFiles(absRoot, TS_EXTENSIONS, excludes);
+      const fingerprint = ['ts', typeScriptVersion(), ...settings].join('\n');
+      const result = extractWithCache(absRoot, files, cacheDir, fingerprint, changed => extractTypeScript(absRoot, excludes, changed), cacheKey);
+      symbols = result.symbols;
+      if (result.stats.writeError) warn(`could not write extraction cache: ${result.stats.writeError}`);
+      log(`  ${result.stats.hits.toLocaleString()} files cached, ${result.stats.misses.toLocaleString()} re-extracted`);
+    } else {
+      symbols = extractTypeScript(absRoot, excludes, onlyTs);
+    }
+  }
+  log(`  Filtered to ${symbols.length.toLocaleString()} symbols (functions, methods, classes)`);
+  return symbols;
+}
+
+/** Maps raw ctags entries onto functions, methods and classes, dropping everything else. */
+export async function filterSymbols(options: FilterOptions): Promise<Symbol[]> {
+  return filterEntries(options.entries, path.resolve(options.root), mergeLanguages(options.languages));
+}
+
+/**
+ * Assigns every symbol a feature from the config's rules and any assignments,
+ * then a sub-feature from the feature's nested rules (in place).
+ */
+export async function classifySymbols(options: ClassifyOptions): Promise<ClassifyResult> {
+  const { symbols, config } = options;
+  const rules = createClassifier(config.features, config.matchPolicy);
+  const classifier = options.assignments ? createAssignedClassifier(rules, options.assignments, config.features) : rules;
+  const subFeatureOf = createSubFeatureClassifier(config.features, config.matchPolicy);
+  for (const sym of symbols) {
+    const { id, name, subFeature } = classifier.classify(sym.file, sym);
+    sym.feature = id;
+    sym.featureName = name;
+    const nested = subFeatureOf(subFeature || id, sym.file, sym);
+    if (nested || subFeature) sym.subFeature = nested || subFeature;
+  }
+  return {
+    symbols,
+    classifier,
+    unmatchedRules: findUnmatchedRules(config.features, symbols, classifier).map(r => r.id),
+    overlaps: options.explain ? findOverlaps(symbols, classifier) : [],
+  };
+}
+
+/**
+ * Reads git history for the window and sums churn per file. With `symbols`,
+ * diff hunks are also mapped onto their line ranges (commits and churn are
+ * set in place).
+ */
+export async function getChurn(options: ChurnOptions): Promise<ChurnResult> {
+  const window: ChurnWindow = { since: options.since || null, until: options.until || null, revRange: options.revRange || null };
+  if (!hasChurnWindow(window)) throw new Error('churn needs a window (since, until or revRange)');
+  const root = path.resolve(options.root);
+  const excludes = options.excludes || [];
+  const log = options.log || noop;
+
+  log(`Extracting git churn (${describeChurnWindow(window)})...`);
+  const history = getCommitHistory(root, window, { mailmap: options.mailmap });
+  const files = summarizeChurn(history, excludes);
+  if (options.symbols) {
+    log('Attributing churn to symbols...');
+    try {
+      attributeSymbolChurn(root, window, options.symbols, excludes);
+    } catch (err) {
+      log(`  Symbol churn skipped: ${(err as Error).message}`);
+    }
+  }
+  return { history, files };
+}
+
+// Symbol counts per feature (every configured feature, plus uncategorized)
+// and their sub-feature trees, with churn, hotspot scores and the 10 hottest
+// files when churn is given
+function buildFeatureMap(symbols: Symbol[], config: FeatureConfig, churn: FileChurn[] | undefined, classifier: Classifier): Map<string, FeatureReport> {
+  const featureMap = new Map<string, FeatureReport>();
+  for (const feat of config.features) {
+    featureMap.set(feat.id, {
+      id: feat.id, name: feat.name, category: feat.category, description: feat.description,
+      functions: 0, methods: 0, classes: 0, total: 0,
+    });
+  }
+  featureMap.set('uncategorized', {
+    id: 'uncategorized', name: 'Uncategorized', category: 'Unknown',
+    functions: 0, methods: 0, classes: 0, total: 0,
+  });
+
+  for (const sym of symbols) {
+    let report = featureMap.get(sym.feature);
+    if (!report) {
+      report = {
+        id: sym.feature, name: sym.featureName, category: 'Unknown',
+        functions: 0, methods: 0, classes: 0, total: 0,
+      };
+      featureMap.set(sym.feature, report);
+    }
+    if (sym.kind === 'function') report.functions++;
+    else if (sym.kind === 'method') report.methods++;
+    else if (sym.kind === 'class') report.classes++;
+    report.total++;
+  }
+  applySubFeatures(featureMap, symbols, config.features, !!churn);
+
+  if (!churn) return featureMap;
+
+  // Aggregate churn by feature
+  for (const file of churn) {
+    const { id } = classifier.classify(file.path);
+    const report = featureMap.get(id);
+    if (!report) continue;
+    report.commits = (report.commits || 0) + file.commits;
+    report.churn = (report.churn || 0) + file.churn;
+    if (!report.topFiles) report.topFiles = [];
+    report.topFiles.push({ path: file.path, commits: file.commits, churn: file.churn, ...(file.package ? { package: file.package } : {}) });
+  }
+
+  // Compute hotspot scores and trim topFiles
+  for (const report of featureMap.values()) {
+    if (report.churn && report.commits) {
+      report.hotspotScore = Math.round(report.churn * Math.sqrt(report.commits));
+    }
+    if (report.topFiles) {
+      report.topFiles.sort((a, b) => b.churn - a.churn);
+      report.topFiles = report.topFiles.slice(0, 10);
+    }
+  }
+  return featureMap;
+}
+
+// Features with symbols or churn, by hotspot score when churn is known, else by symbol count
+function sortFeatures(featureMap: Map<string, FeatureReport>, hasChurn: boolean): FeatureReport[] {
+  return [...featureMap.values()]
+    .filter(f => f.total > 0 || (f.churn && f.churn > 0))
+    .sort((a, b) => {
+      if (hasChurn && a.hotspotScore !== undefined && b.hotspotScore !== undefined) {
+        return b.hotspotScore - a.hotspotScore;
+      }
+      return b.total - a.total;
+    });
+}
+
+/** Per-feature symbol counts, plus churn and hotspot scores when `churn` is given. */
+export async function aggregateFeatures(options: AggregateOptions): Promise<FeatureReport[]> {
+  const { symbols, config, churn } = options;
+  const classifier = options.classifier || createClassifier(config.features, config.matchPolicy);
+  return sortFeatures(buildFeatureMap(symbols, config, churn, classifier), !!churn);
+}
+
+// A config object, or loaded from a path with its warnings reported
+function resolveConfig(config: FeatureConfig | string | undefined, warn: (message: string) => void): FeatureConfig {
+  if (typeof config !== 'string') return config || { name: 'default', features: [], excludePaths: [], excludeChurn: [] };
+  const loaded = loadConfig(config);
+  for (const w of loaded.warnings) warn(w);
+  return loaded.config;
+}
+
+/**
+ * The full census: extraction, classification, churn and every requested
+ * analysis. With `at`, the ref is checked out into a temporary worktree and
+ * analyzed there; a churn window then ends at that ref.
+ */
+export async function runCensus(options: CensusOptions): Promise<CensusResult> {
+  if (!options.at) return census(options, path.resolve(options.root));
+  const root = path.resolve(options.root);
+  const at = resolveRef(root, options.at);
+  (options.log || noop)(`Checking out ${at.ref} (${at.commit.slice(0, 12)}) into a temporary worktree...`);
+  const result = await withWorktree(root, at.commit, dir => census({ ...options, root: dir }, root));
+  return { ...result, root, at };
+}
+
+async function census(options: CensusOptions, cacheKey: string): Promise<CensusResult> {
+  const log = options.log || noop;
+  const warn = options.onWarning || noop;
+  const churnWindow: ChurnWindow = { since: options.since || null, until: options.until || null, revRange: options.revRange || null };
+  const hasChurn = hasChurnWindow(churnWindow);
+  const interval = options.interval || null;
+  const testMapping = options.testMapping || 'mirror';
+
+  if (!TEST_MAPPINGS.includes(testMapping)) {
+    throw new Error(`unknown test mapping "${testMapping}" (expected rules or mirror)`);
+  }
+  if (interval && !TREND_INTERVALS.includes(interval)) {
+    throw new Error(`unknown interval "${interval}" (expected week, month or quarter)`);
+  }
+  if ((options.coupling || options.authors || interval) && !hasChurn) {
+    const what = options.coupling ? 'coupling' : options.authors ? 'authors' : 'interval';
+    throw new Error(`${what} needs a churn window (since, until or revRange)`);
+  }
+
+  const absRoot = path.resolve(options.root);
+
+  const config = resolveConfig(options.config, warn);
+
+  const cliExcludes = options.excludes || [];
+  const allExcludes = [...(config.excludePaths || []), ...cliExcludes];
+  const allChurnExcludes = [...(config.excludeChurn || []), ...cliExcludes];
+  const extractOptions = {
+    root: absRoot, extractor: options.extractor, excludes: allExcludes, cacheDir: options.cacheDir, cacheKey,
+    languages: config.languages, log, onWarning: warn,
+  };
+
+  // 1–2. Extract symbols: ctags + filter, or the TypeScript parser
+  const extracted = await extractSymbols(extractOptions);
+
+  // Test files: extracted on their own, since configs usually exclude them.
+  // Excludes that are themselves test patterns don't apply here.
+  const testPatterns = config.testPaths || DEFAULT_TEST_PATTERNS;
+  const isTestFile = options.tests ? createTestMatcher(testPatterns) : null;
+  const symbols = isTestFile ? extracted.filter(s => !isTestFile(s.file)) : extracted;
+  let testSymbols: Symbol[] = [];
+  if (isTestFile) {
+    const testExcludes = allExcludes.filter(p => !testPatterns.includes(p));
+    const testFiles = listSourceFiles(absRoot, languageExtensions(mergeLanguages(config.languages)), testExcludes).filter(isTestFile);
+    log(`Extracting ${testFiles.length.toLocaleString()} test files...`);
+    if (testFiles.length > 0) {
+      testSymbols = await extractSymbols({
+        ...extractOptions,
+        excludes: testExcludes,
+        cacheDir: options.cacheDir && path.join(options.cacheDir, 'tests'),
+        files: testFiles,
+      });
+    }
+  }
+
+  // Workspace packages (npm/pnpm/yarn, Gradle, Go, Cargo)
+  const workspaces = detectWorkspaces(absRoot, allExcludes);
+  const packageOf = workspaces.length > 0 ? createPackageResolver(workspaces) : null;
+  if (packageOf) {
+    const managers = [...new Set(workspaces.map(w => w.manager))].join(', ');
+    log(`  Detected ${workspaces.length} workspace packages (${managers})`);
+    for (const sym of symbols) sym.package = packageOf(sym.file);
+  }
+
+  // 3. Classify each symbol, with assignments layered over the rules
+  const assignmentsFile = typeof options.assignments === 'string' ? options.assignments : '(inline)';
+  const assignments = typeof options.assignments === 'string' ? loadAssignments(options.assignments) : options.assignments;
+  const { classifier, unmatchedRules, overlaps } = await classifySymbols({ symbols, config, assignments, explain: options.explain });
+  for (const id of unmatchedRules) {
+    warn(`feature "${id}" matches no extracted file or symbol`);
+  }
+  let assignmentSummary: AssignmentSummary | null = null;
+  if (assignments) {
+    const known = new Set(config.features.map(f => f.id));
+    const undefinedIds = new Set(
+      [...Object.values(assignments.directories || {}), ...Object.values(assignments.files || {}), ...(assignments.symbols || [])]
+        .map(a => a.feature)
+        .filter(id => id !== 'uncategorized' && !known.has(id) && !assignments.features?.[id]),
+    );
+    for (const id of undefinedIds) warn(`assignments use feature "${id}", which neither the config nor the assignments file defines`);
+    assignmentSummary = summarizeAssignments(assignmentsFile, assignments, classifier as AssignedClassifier, symbols);
+    log(`  Assignments: ${assignmentSummary.assigned.toLocaleString()} symbols assigned, ${assignmentSummary.uncovered.toLocaleString()} not covered`);
+    if (assignmentSummary.stale > 0) {
+      warn(`${assignmentSummary.stale} assignment${assignmentSummary.stale === 1 ? '' : 's'} match no extracted file or symbol`);
+    }
+  }
+
+  const testMappings = isTestFile ? mapTests(testSymbols, symbols, classifier, testMapping) : [];
+
+  // Symbol lengths, complexity and per-file counts
+  const fileMetrics = measureSymbols(absRoot, symbols);
+
+  // 4–5. Git churn if a window is given, then aggregate by feature
+  let history: CommitRecord[] = [];
+  let churnData: FileChurn[] = [];
+  if (hasChurn) {
+    const churn = await getChurn({ root: absRoot, ...churnWindow, excludes: allChurnExcludes, mailmap: options.mailmap, symbols, log });
+    history = churn.history;
+    churnData = churn.files;
+    if (packageOf) {
+      for (const file of churnData) file.package = packageOf(file.path);
+    }
+  }
+  const featureMap = buildFeatureMap(symbols, config, hasChurn ? churnData : undefined, classifier);
+  for (const [id, def] of Object.entries(assignments?.features || {})) {
+    const report = featureMap.get(id);
+    if (report && report.category === 'Unknown' && def.category) report.category = def.category;
+  }
+
+  if (isTestFile) applyTestCounts(featureMap, testSymbols);
+
+  // Likely-unused symbols, searching production and test files for references
+  let unused: UnusedSummary | null = null;
+  if (options.unused) {
+    log('Searching for references...');
+    const scanExcludes = allExcludes.filter(p => !testPatterns.includes(p));
+    const found = findUnused({
+      repoRoot: absRoot,
+      symbols,
+      files: listSourceFiles(absRoot, languageExtensions(mergeLanguages(config.languages)), scanExcludes),
+      isTestFile: isTestFile || createTestMatcher(testPatterns),
+      config: config.unused,
+    });
+    applyUnusedCounts(featureMap, found.symbols);
+    const count = (confidence: string) => found.symbols.filter(s => s.confidence === confidence).length;
+    unused = {
+      scannedFiles: found.scannedFiles, allowed: found.allowed,
+      high: count('high'), medium: count('medium'), low: count('low'),
+      symbols: found.symbols,
+    };
+    log(`  ${found.symbols.length.toLocaleString()} likely-unused symbols in ${found.scannedFiles.toLocaleString()} files searched`);
+  }
+
+  // CODEOWNERS: owners of every file and symbol, rolled up per feature
+  let ownership: OwnershipSummary | null = null;
+  const codeowners = options.codeowners === false ? null : loadCodeowners(absRoot, options.codeowners);
+  if (codeowners) {
+    log(`Reading ${codeowners.file} (${codeowners.rules.length} rules)...`);
+    ownership = applyOwnership(codeowners, featureMap, symbols, hasChurn ? churnData : [], p => classifier.classify(p).id);
+    for (const file of fileMetrics) {
+      const owners = codeowners.ownersOf(file.path);
+      if (owners.length > 0) file.owners = owners;
+    }
+  }
+
+  let coupling: CouplingReport | null = null;
+  let dependencies: DependencyReport | null = null;
+
+  if (hasChurn) {
+    if (options.coupling) {
+      coupling = analyzeCoupling(history, classifier, allChurnExcludes);
+    }
+
+    if (options.authors) {
+      const ownership = analyzeAuthorship(history, p => classifier.classify(p).id, allChurnExcludes, {
+        aliases: config.authorAliases,
+        halfLifeDays: options.authorsHalfLife || null,
+      });
+      for (const [id, { authors, busFactor }] of ownership) {
+        const report = featureMap.get(id);
+        if (!report) continue;
+        report.authors = authors;
+        report.busFactor = busFactor;
+      }
+    }
+
+    if (interval) {
+      const trends = analyzeTrends(history, p => classifier.classify(p).id, allChurnExcludes, interval);
+      for (const [id, { series, trend }] of trends) {
+        const report = featureMap.get(id);
+        if (!report) continue;
+        report.series = series;
+        report.trend = trend;
+      }
+    }
+  }
+
+  // 6. Import graph between features
+  if (options.dependencies) {
+    log('Resolving imports...');
+    const sourceFiles = listSourceFiles(absRoot, languageExtensions(mergeLanguages(config.languages)), allExcludes);
+    dependencies = analyzeDependencies(absRoot, sourceFiles, p => classifier.classify(p).id, { workspaces });
+    log(`  ${dependencies.resolved.toLocaleString()} of ${dependencies.imports.toLocaleString()} imports resolved to repo files`);
+  }
+
+  const sorted = sortFeatures(featureMap, hasChurn);
+
+  // Stats
+  const totalSymbols = symbols.length;
+  const uncatCount = featureMap.get('uncategorized')?.total || 0;
+  const coveragePct = ((1 - uncatCount / totalSymbols) * 100).toFixed(1);
+
+  // Hottest files across all features
+  const allTopFiles: HotFile[] = [];
+  for (const feat of sorted) {
+    for (const f of feat.topFiles || []) {
+      allTopFiles.push({ ...f, feature: feat.name });
+    }
+  }
+  allTopFiles.sort((a, b) => b.churn - a.churn);
+
+  // Size: longest symbols, mega-files, and with churn the lines × commits risk
+  if (hasChurn) applyFileRisk(fileMetrics, churnData);
+  const riskiestFiles = hasChurn
+    ? fileMetrics.filter(f => f.risk).sort((a, b) => b.risk! - a.risk!).slice(0, 20)
+    : [];
+
+  // Hottest individual symbols
+  const hotSymbols: HotSymbol[] = symbols
+    .filter(s => s.churn)
+    .sort((a, b) => b.churn! - a.churn! || b.commits! - a.commits!)
+    .slice(0, 20)
+    .map(s => ({
+      name: s.name, kind: s.kind, scope: s.scope, file: s.file, line: s.line, endLine: s.endLine,
+      commits: s.commits!, churn: s.churn!, feature: s.featureName,
+      ...(s.package ? { package: s.package } : {}),
+    }));
+
+  return {
+    root: absRoot,
+    at: null,
+    config,
+    churnWindow,
+    hasChurn,
+    interval,
+    symbols,
+    testSymbols,
+    features: sorted,
+    totals: {
+      symbols: totalSymbols,
+      functions: symbols.filter(s => s.kind === 'function').length,
+      methods: symbols.filter(s => s.kind === 'method').length,
+      classes: symbols.filter(s => s.kind === 'class').length,
+    },
+    uncategorized: uncatCount,
+    coveragePct,
+    overlaps: options.explain ? overlaps : null,
+    churn: churnData,
+    hotFiles: allTopFiles,
+    hotSymbols,
+    coupling,
+    dependencies,
+    languages: aggregateLanguages(symbols),
+    // Untested features, hottest first (the order of `sorted`)
+    tests: isTestFile ? {
+      mapping: testMapping,
+      files: testMappings.length,
+      symbols: testSymbols.length,
+      mirrored: testMappings.filter(m => m.mirrors).length,
+      untested: sorted.filter(f => f.id !== 'uncategorized' && f.total > 0 && !f.testSymbols).map(f => f.id),
+      fileMappings: testMappings,
+    } : null,
+    unused,
+    assignments: assignmentSummary,
+    codeowners: ownership,
+    workspaces,
+    packages: packageOf || options.packages ? aggregatePackages(workspaces, symbols, churnData) : null,
+    files: fileMetrics,
+    largestSymbols: largestSymbols(symbols, 20, hasChurn),
+    megaFiles: findMegaFiles(fileMetrics),
+    riskiestFiles,
+  };
+}
+
+/**
+ * Per-feature symbol counts at each ref, every one extracted from a temporary
+ * worktree and classified with the same config.
+ */
+export async function runHistory(options: HistoryOptions): Promise<HistoryReport> {
+  const log = options.log || noop;
+  const warn = options.onWarning || noop;
+  const root = path.resolve(options.root);
+  if (!options.refs?.length && !options.every) throw new Error('history needs refs or every');
+  if (options.every && !TREND_INTERVALS.includes(options.every)) {
+    throw new Error(`unknown interval "${options.every}" (expected week, month or quarter)`);
+  }
+
+  const config = resolveConfig(options.config, warn);
+  const assignments = typeof options.assignments === 'string' ? loadAssignments(options.assignments) : options.assignments;
+  const excludes = [...(config.excludePaths || []), ...(options.excludes || [])];
+  const refs = options.every
+    ? periodicRefs(root, options.every, { since: options.since, until: options.until })
+    : options.refs!.map(ref => resolveRef(root, ref)).sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  const names = new Map<string, { id: string; name: string; category: string }>();
+  const byCommit = new Map<string, Pick<HistoryPoint, 'totals' | 'features'>>();
+  const points: HistoryPoint[] = [];
+  for (const [i, ref] of refs.entries()) {
+    let counts = byCommit.get(ref.commit);
+    if (!counts) {
+      log(`[${i + 1}/${refs.length}] ${ref.ref} (${ref.commit.slice(0, 12)}, ${ref.date.slice(0, 10)})`);
+      counts = await withWorktree(root, ref.commit, async dir => {
+        const symbols = await extractSymbols({
+          root: dir, extractor: options.extractor, excludes, cacheDir: options.cacheDir, cacheKey: root,
+          languages: config.languages, log, onWarning: warn,
+        });
+        const { classifier } = await classifySymbols({ symbols, config, assignments });
+        const features: Record<string, SymbolCounts> = {};
+        for (const report of buildFeatureMap(symbols, config, undefined, classifier).values()) {
+          if (report.total === 0) continue;
+          features[report.id] = { functions: report.functions, methods: report.methods, classes: report.classes, total: report.total };
+          if (!names.has(report.id)) names.set(report.id, { id: report.id, name: report.name, category: report.category });
+        }
+        const totals: SymbolCounts = {
+          functions: symbols.filter(s => s.kind === 'function').length,
+          methods: symbols.filter(s => s.kind === 'method').length,
+          classes: symbols.filter(s => s.kind === 'class').length,
+          total: symbols.length,
+        };
+        return { totals, features };
+      });
+      byCommit.set(ref.commit, counts);
+    }
+    points.push({ ...ref, ...counts });
+  }
+
+  // Largest at the newest point first, Uncategorized last
+  const newest = points[points.length - 1]?.features || {};
+  const features = [...names.values()].sort((a, b) =>
+    Number(a.id === 'uncategorized') - Number(b.id === 'uncategorized') || (newest[b.id]?.total || 0) - (newest[a.id]?.total || 0));
+  return {
+    repo: root,
+    extractedAt: new Date().toISOString(),
+    ...(options.every ? { every: options.every } : {}),
+    features,
+    points,
+  };
+}
+
+/** The JSON snapshot written by --json, which `diff` compares. */
+export function toSnapshot(result: CensusResult, extractedAt = new Date()): CensusSnapshot {
+  const { hasChurn } = result;
+  return {
+    repo: result.root,
+    extractedAt: extractedAt.toISOString(),
+    ...(result.at ? { at: result.at } : {}),
+    since: result.churnWindow.since || null,
+    until: result.churnWindow.until || null,
+    revRange: result.churnWindow.revRange || null,
+    ...(result.interval ? { interval: result.interval } : {}),
+    totals: result.totals,
+    coverageRate: result.coveragePct + '%',
+    features: result.features,
+    ...(result.overlaps ? { overlaps: result.overlaps } : {}),
+    ...(hasChurn ? { hotSymbols: result.hotSymbols } : {}),
+    ...(result.coupling ? { coupling: result.coupling } : {}),
+    languages: result.languages,
+    ...(result.packages ? { packages: result.packages } : {}),
+    ...(result.dependencies ? { dependencies: result.dependencies } : {}),
+    ...(result.tests ? { tests: result.tests } : {}),
+    ...(result.unused ? { unused: result.unused } : {}),
+    ...(result.assignments ? { assignments: result.assignments } : {}),
+    ...(result.codeowners ? { codeowners: result.codeowners } : {}),
+    files: result.files,
+    largestSymbols: result.largestSymbols,
+    megaFiles: result.megaFiles,
+    ...(hasChurn ? { riskiestFiles: result.riskiestFiles } : {}),
+    symbols: result.symbols.map(s => ({
+      name: s.name, kind: s.kind, file: s.file, language: s.language, line: s.line, endLine: s.endLine,
+      lines: s.lines, complexity: s.complexity, methods: s.methods, scope: s.scope, package: s.package, feature: s.feature, subFeature: s.subFeature,
+      owners: s.owners,
+      ...(hasChurn ? { commits: s.commits || 0, churn: s.churn || 0 } : {}),
+    })),
+  };
+}
@@ -0,0 +1,297 @@
+// ─── Feature assignments (--assignments, --emit-assignments) ───────────────
+//
+// An assignments file pins directories, files and individual symbols (file +
+// name + scope) to a feature and optional sub-feature, so a classification
+// made once (typically the AI pass of the Claude Code workflow) is re-applied
+// verbatim on later runs. Lookup order is symbol, then file, then the longest
+// matching directory. In "override" mode (the default) an assignment beats
+// the config's rules; in "supplement" mode it only fills in symbols the rules
+// leave uncategorized. --emit-assignments writes the current classification
+// in the same format: one entry per directory whose files all agree, one per
+// remaining file (its majority feature, "uncategorized" included), and
+// symbol entries for the exceptions.
+
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import type { Classification, Classifier, FeatureMatch } from './classify';
+import type { Assignment, AssignmentMode, Assignments, AssignmentSummary, FeatureReport, FeatureRule, Symbol, SymbolAssignment } from './types';
+
+const ASSIGNMENT_KEYS = new Set(['version', 'mode', 'generatedAt', 'features', 'directories', 'files', 'symbols']);
+
+const symbolKey = (file: string, name: string, scope?: string) => `${file}\0${scope || ''}\0${name}`;
+const assignmentKey = (a: Assignment) => `${a.feature}\0${a.subFeature || ''}`;
+const normalizeDir = (dir: string) => dir.replace(/\\/g, '/').replace(/^\.?\/+/, '').replace(/\/*$/, '/');
+
+function typeName(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/** Reads and validates an assignments file (JSON or YAML). Throws on errors. */
+export function loadAssignments(file: string): Assignments {
+  let raw: unknown;
+  try {
+    const text = fs.readFileSync(file, 'utf-8');
+    raw = /\.ya?ml$/i.test(file) ? YAML.parse(text) : JSON.parse(text);
+  } catch (e) {
+    throw new Error(`Cannot read assignments ${file}: ${(e as Error).message}`);
+  }
+
+  const errors: string[] = [];
+  const err = (field: string, message: string) => errors.push(`${file}: ${field}: ${message}`);
+  const isObject = (v: unknown): v is Record<string, unknown> => typeName(v) === 'object';
+  const expectAssignment = (value: unknown, field: string) => {
+    if (!isObject(value)) return err(field, `expected an object with "feature", got ${typeName(value)}`);
+    if (typeof value.feature !== 'string' || !value.feature) err(`${field}.feature`, 'required');
+    if (value.subFeature !== undefined && typeof value.subFeature !== 'string') err(`${field}.subFeature`, `expected a string, got ${typeName(value.subFeature)}`);
+  };
+
+  if (!isObject(raw)) throw new Error(`${file}: expected an object, got ${typeName(raw)}`);
+  for (const key of Object.keys(raw)) {
+    if (!ASSIGNMENT_KEYS.has(key)) err(key, 'unknown field');
+  }
+  if (raw.version !== undefined && raw.version !== 1) err('version', `unsupported version ${JSON.stringify(raw.version)} (expected 1)`);
+  if (raw.mode !== undefined && raw.mode !== 'override' && raw.mode !== 'supplement') {
+    err('mode', `expected "override" or "supplement", got ${JSON.stringify(raw.mode)}`);
+  }
+  if (raw.features !== undefined) {
+    if (!isObject(raw.features)) err('features', `expected an object mapping ids to { name, category }, got ${typeName(raw.features)}`);
+    else {
+      for (const [id, def] of Object.entries(raw.features)) {
+        if (!isObject(def) || typeof def.name !== 'string') err(`features.${id}`, 'expected { name, category? }');
+      }
+    }
+  }
+  for (const field of ['directories', 'files'] as const) {
+    if (raw[field] === undefined) continue;
+    if (!isObject(raw[field])) {
+      err(field, `expected an object mapping paths to { feature, subFeature? }, got ${typeName(raw[field])}`);
+      continue;
+    }
+    for (const [p, value] of Object.entries(raw[field] as Record<string, unknown>)) expectAssignment(value, `${field}.${p}`);
+  }
+  if (raw.symbols !== undefined) {
+    if (!Array.isArray(raw.symbols)) err('symbols', `expected an array, got ${typeName(raw.symbols)}`);
+    else {
+      raw.symbols.forEach((entry: unknown, i: number) => {
+        expectAssignment(entry, `symbols[${i}]`);
+        if (!isObject(entry)) return;
+        if (typeof entry.file !== 'string' || !entry.file) err(`symbols[${i}].file`, 'required');
+        if (typeof entry.name !== 'string' || !entry.name) err(`symbols[${i}].name`, 'required');
+        if (entry.scope !== undefined && typeof entry.scope !== 'string') err(`symbols[${i}].scope`, `expected a string, got ${typeName(entry.scope)}`);
+      });
+    }
+  }
+  if (errors.length > 0) throw new Error(`Invalid assignments:\n  ${errors.join('\n  ')}`);
+  return raw as unknown as Assignments;
+}
+
+export interface AssignedClassifier extends Classifier {
+  /** The entry covering this file or symbol, or null when none does. */
+  lookup(relPath: string, symbol?: Pick<Symbol, 'name' | 'scope'>): { assignment: Assignment; entry: string } | null;
+}
+
+/**
+ * Layers assignments over a rule classifier. `features` supplies display
+ * names and categories; ids missing there fall back to the assignments file's
+ * own `features`, then to the id itself.
+ */
+export function createAssignedClassifier(base: Classifier, assignments: Assignments, features: Pick<FeatureRule, 'id' | 'name' | 'category'>[]): AssignedClassifier {
+  const mode: AssignmentMode = assignments.mode || 'override';
+  const known = new Map<string, { name: string; category: string }>(features.map(f => [f.id, { name: f.name, category: f.category }]));
+  for (const [id, def] of Object.entries(assignments.features || {})) {
+    if (!known.has(id)) known.set(id, { name: def.name, category: def.category || 'Unknown' });
+  }
+  const bySymbol = new Map((assignments.symbols || []).map(s => [symbolKey(s.file, s.name, s.scope), s]));
+  const byFile = new Map(Object.entries(assignments.files || {}).map(([f, a]) => [f.replace(/\\/g, '/').replace(/^\.\//, ''), a]));
+  const dirs = Object.entries(assignments.directories || {})
+    .map(([d, a]) => [normalizeDir(d), a] as const)
+    .sort((a, b) => b[0].length - a[0].length);
+
+  function lookup(relPath: string, symbol?: Pick<Symbol, 'name' | 'scope'>) {
+    const file = relPath.replace(/\\/g, '/');
+    if (symbol) {
+      const hit = bySymbol.get(symbolKey(file, symbol.name, symbol.scope));
+      if (hit) return { assignment: hit, entry: `symbol ${file}:${symbol.scope ? `${symbol.scope}.` : ''}${symbol.name}` };
+    }
+    const fileHit = byFile.get(file);
+    if (fileHit) return { assignment: fileHit, entry: `file ${file}` };
+    const dir = dirs.find(([d]) => file.startsWith(d));
+    return dir ? { assignment: dir[1], entry: `directory ${dir[0]}` } : null;
+  }
+
+  function toClassification(a: Assignment): Classification {
+    const def = known.get(a.feature);
+    return {
+      id: a.feature,
+      name: def?.name || (a.feature === 'uncategorized' ? 'Uncategorized' : a.feature),
+      category: def?.category || 'Unknown',
+      ...(a.subFeature ? { subFeature: a.subFeature } : {}),
+    };
+  }
+
+  function classify(relPath: string, symbol?: Pick<Symbol, 'name' | 'scope'>): Classification {
+    const hit = lookup(relPath, symbol);
+    if (!hit) return base.classify(relPath, symbol);
+    if (mode === 'supplement') {
+      const ruled = base.classify(relPath, symbol);
+      // Rules win, but a sub-feature still applies when they agree on the feature
+      if (ruled.id === hit.assignment.feature) return toClassification(hit.assignment);
+      if (ruled.id !== 'uncategorized') return ruled;
+    }
+    return toClassification(hit.assignment);
+  }
+
+  function matches(relPath: string, symbol?: Pick<Symbol, 'name' | 'scope'>): FeatureMatch[] {
+    const ruled = base.matches(relPath, symbol);
+    const hit = lookup(relPath, symbol);
+    if (!hit) return ruled;
+    const assigned: FeatureMatch = {
+      ...toClassification(hit.assignment),
+      priority: Infinity, symbolLevel: !!symbol, specificity: 0, pattern: `assignments: ${hit.entry}`,
+    };
+    return mode === 'supplement' ? [...ruled, assigned] : [assigned, ...ruled.filter(m => m.id !== assigned.id)];
+  }
+
+  return { matches, classify, lookup };
+}
+
+/**
+ * Counts what the assignments covered: symbols they assigned, symbols no
+ * entry covers (new since the file was written), and entries that no longer
+ * match any file or symbol.
+ */
+export function summarizeAssignments(
+  file: string,
+  assignments: Assignments,
+  classifier: AssignedClassifier,
+  symbols: Symbol[],
+): AssignmentSummary {
+  const usedEntries = new Set<string>();
+  const uncovered: Symbol[] = [];
+  let assigned = 0;
+  for (const sym of symbols) {
+    const hit = classifier.lookup(sym.file, sym);
+    if (!hit) {
+      uncovered.push(sym);
+      continue;
+    }
+    usedEntries.add(hit.entry);
+    // Files and directories stay live while anything beneath them exists, even if a symbol entry won
+    usedEntries.add(`file ${sym.file}`);
+    for (const [d] of Object.entries(assignments.directories || {})) {
+      if (sym.file.startsWith(normalizeDir(d))) usedEntries.add(`directory ${normalizeDir(d)}`);
+    }
+    if (sym.feature === hit.assignment.feature) assigned++;
+  }
+  const entries = [
+    ...Object.keys(assignments.directories || {}).map(d => `directory ${normalizeDir(d)}`),
+    ...Object.keys(assignments.files || {}).map(f => `file ${f.replace(/^\.\//, '')}`),
+    ...(assignments.symbols || []).map(s => `symbol ${s.file}:${s.scope ? `${s.scope}.` : ''}${s.name}`),
+  ];
+  return {
+    file,
+    mode: assignments.mode || 'override',
+    directories: Object.keys(assignments.directories || {}).length,
+    files: Object.keys(assignments.files || {}).length,
+    symbols: (assignments.symbols || []).length,
+    assigned,
+    uncovered: uncovered.length,
+    stale: entries.filter(e => !usedEntries.has(e)).length,
+    unassigned: uncovered.map(s => ({ name: s.name, kind: s.kind, scope: s.scope, file: s.file, line: s.line, feature: s.feature })),
+  };
+}
+
+/**
+ * The current classification as an assignments file. Uncategorized symbols
+ * get explicit "uncategorized" entries, so every symbol that exists now is
+ * covered and a later run reports only genuinely new symbols as uncovered.
+ */
+export function buildAssignments(symbols: Symbol[], features: FeatureReport[], mode: AssignmentMode = 'override'): Assignments {
+  const byFile = new Map<string, Symbol[]>();
+  for (const sym of symbols) {
+    const list = byFile.get(sym.file) || [];
+    list.push(sym);
+    byFile.set(sym.file, list);
+  }
+
+  const fileEntries = new Map<string, Assignment>();
+  const symbolEntries: SymbolAssignment[] = [];
+  for (const [file, fileSymbols] of byFile) {
+    const counts = new Map<string, { assignment: Assignment; count: number }>();
+    for (const sym of fileSymbols) {
+      const assignment: Assignment = { feature: sym.feature, ...(sym.subFeature ? { subFeature: sym.subFeature } : {}) };
+      const entry = counts.get(assignmentKey(assignment)) || { assignment, count: 0 };
+      entry.count++;
+      counts.set(assignmentKey(assignment), entry);
+    }
+    const majority = [...counts.values()].sort((a, b) => b.count - a.count)[0].assignment;
+    fileEntries.set(file, majority);
+    for (const sym of fileSymbols) {
+      if (sym.feature === majority.feature && (sym.subFeature || '') === (majority.subFeature || '')) continue;
+      symbolEntries.push({
+        file, name: sym.name, ...(sym.scope ? { scope: sym.scope } : {}),
+        feature: sym.feature, ...(sym.subFeature ? { subFeature: sym.subFeature } : {}),
+      });
+    }
+  }
+
+  // Directories whose every file (with symbols) carries the same feature
+  // assignment; only the topmost such directory is written. Uncategorized
+  // files stay file entries, so new files below them are still reported.
+  const dirKeys = new Map<string, Set<string>>();
+  for (const file of byFile.keys()) {
+    const assignment = fileEntries.get(file)!;
+    const key = assignment.feature === 'uncategorized' ? '' : assignmentKey(assignment);
+    const parts = file.split('/');
+    for (let i = 1; i < parts.length; i++) {
+      const dir = parts.slice(0, i).join('/') + '/';
+      const set = dirKeys.get(dir) || new Set<string>();
+      set.add(key);
+      dirKeys.set(dir, set);
+    }
+  }
+  const uniform = (dir: string) => {
+    const keys = dirKeys.get(dir);
+    return !!keys && keys.size === 1 && !keys.has('');
+  };
+  const directories: Record<string, Assignment> = {};
+  const files: Record<string, Assignment> = {};
+  for (const [file, assignment] of [...fileEntries].sort((a, b) => a[0].localeCompare(b[0]))) {
+    const parts = file.split('/');
+    let top: string | null = null;
+    for (let i = 1; i < parts.length; i++) {
+      const dir = parts.slice(0, i).join('/') + '/';
+      if (uniform(dir)) {
+        top = dir;
+        break;
+      }
+    }
+    if (top) directories[top] = assignment;
+    else files[file] = assignment;
+  }
+
+  const used = new Set([...fileEntries.values(), ...symbolEntries].map(a => a.feature));
+  const definitions: Record<string, { name: string; category: string }> = {};
+  for (const f of features) {
+    if (used.has(f.id) && f.id !== 'uncategorized') definitions[f.id] = { name: f.name, category: f.category };
+  }
+
+  return {
+    version: 1,
+    mode,
+    generatedAt: new Date().toISOString(),
+    features: definitions,
+    directories,
+    files,
+    symbols: symbolEntries.sort((a, b) => a.file.localeCompare(b.file) || a.name.localeCompare(b.name)),
+  };
+}
+
+/** Writes assignments as YAML for .yml/.yaml paths, JSON otherwise. */
+export function writeAssignments(file: string, assignments: Assignments) {
+  fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+  fs.writeFileSync(file, /\.ya?ml$/i.test(file) ? YAML.stringify(assignments) : JSON.stringify(assignments, null, 2) + '\n');
+}
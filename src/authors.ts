@@ -0,0 +1,106 @@
+// ─── Authorship ─────────────────────────────────────────────────────────────
+//
+// Credits each commit's churn to its author, per feature. Identities are
+// merged first by git's .mailmap (plus --mailmap), then by the config's
+// `authorAliases`. With a half-life, older commits count for less when
+// computing shares and the bus factor; raw commit and churn counts are not
+// weighted.
+
+import type { CommitRecord } from './churn';
+import type { AuthorShare } from './types';
+
+export interface AuthorshipOptions {
+  aliases?: Record<string, string[]>;   // canonical name → other names/emails
+  halfLifeDays?: number | null;         // weight = 0.5 ^ (age / half-life)
+  now?: Date;
+  top?: number;                         // contributors kept per feature (default 5)
+}
+
+export interface FeatureAuthorship {
+  authors: AuthorShare[];
+  busFactor: number;
+}
+
+/**
+ * Fewest authors who together hold more than half of the (weighted) churn.
+ * A feature with bus factor 1 has a single person holding the majority.
+ */
+export function busFactor(shares: number[]): number {
+  const sorted = [...shares].sort((a, b) => b - a);
+  let total = 0;
+  for (let i = 0; i < sorted.length; i++) {
+    total += sorted[i];
+    if (total > 0.5) return i + 1;
+  }
+  return sorted.length;
+}
+
+function createIdentityResolver(aliases: Record<string, string[]>) {
+  const lookup = new Map<string, string>();
+  for (const [canonical, others] of Object.entries(aliases)) {
+    lookup.set(canonical.toLowerCase(), canonical);
+    for (const other of others) lookup.set(other.toLowerCase(), canonical);
+  }
+  return (name: string, email: string) =>
+    lookup.get(email.toLowerCase()) || lookup.get(name.toLowerCase()) || name || email;
+}
+
+export function analyzeAuthorship(
+  history: CommitRecord[],
+  classify: (path: string) => string,
+  excludePatterns: string[],
+  options: AuthorshipOptions = {},
+): Map<string, FeatureAuthorship> {
+  const resolve = createIdentityResolver(options.aliases || {});
+  const nowSec = (options.now || new Date()).getTime() / 1000;
+  const halfLifeSec = options.halfLifeDays ? options.halfLifeDays * 86400 : null;
+  const top = options.top ?? 5;
+
+  interface Tally { email: string; commits: number; churn: number; weighted: number }
+  const byFeature = new Map<string, Map<string, Tally>>();
+
+  for (const commit of history) {
+    const author = resolve(commit.author, commit.email);
+    const weight = halfLifeSec ? Math.pow(0.5, Math.max(0, nowSec - commit.timestamp) / halfLifeSec) : 1;
+    const touched = new Set<string>();
+
+    for (const change of commit.files) {
+      if (excludePatterns.some(ex => change.path.includes(ex))) continue;
+      const feature = classify(change.path);
+      if (!byFeature.has(feature)) byFeature.set(feature, new Map());
+      const tallies = byFeature.get(feature)!;
+      let tally = tallies.get(author);
+      if (!tally) {
+        tally = { email: commit.email, commits: 0, churn: 0, weighted: 0 };
+        tallies.set(author, tally);
+      }
+      const lines = change.additions + change.deletions;
+      tally.churn += lines;
+      // Binary-only or rename-only changes still show who touched the feature
+      tally.weighted += Math.max(lines, 1) * weight;
+      if (!touched.has(feature)) {
+        touched.add(feature);
+        tally.commits++;
+      }
+    }
+  }
+
+  const result = new Map<string, FeatureAuthorship>();
+  for (const [feature, tallies] of byFeature) {
+    const totalWeighted = [...tallies.values()].reduce((s, t) => s + t.weighted, 0);
+    const all = [...tallies.entries()]
+      .map(([name, t]) => ({
+        name,
+        email: t.email,
+        commits: t.commits,
+        churn: t.churn,
+        share: totalWeighted > 0 ? t.weighted / totalWeighted : 0,
+      }))
+      .sort((a, b) => b.share - a.share || b.commits - a.commits);
+    result.set(feature, {
+      authors: all.slice(0, top).map(a => ({ ...a, share: Math.round(a.share * 1000) / 1000 })),
+      busFactor: busFactor(all.map(a => a.share)),
+    });
+  }
+  return result;
+}
@@ -0,0 +1,133 @@
+// ─── Extraction cache ───────────────────────────────────────────────────────
+//
+// Persists extracted symbols per file so repeat runs only re-extract files
+// that changed. An entry is reused when the file's mtime and size are
+// unchanged, or, failing that, when its content hash still matches (e.g.
+// after a fresh checkout resets mtimes). The whole cache is discarded when
+// its fingerprint changes: the extractor name and version, the ctags
+// options (languages and kinds), the merged language table, the excludes,
+// and CACHE_FORMAT for changes to the filtering logic in this tool.
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import type { Symbol } from './types';
+
+// Bump when filterSymbols() or extractFromSource() change what they emit
+const CACHE_FORMAT = 3;
+
+interface CachedFile {
+  mtimeMs: number;
+  size: number;
+  hash: string;
+  symbols: Symbol[];
+}
+
+interface CacheFile {
+  fingerprint: string;
+  repo: string;
+  files: Record<string, CachedFile>;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  file: string;          // cache file read and written
+  writeError?: string;   // why the cache could not be written, if it couldn't
+}
+
+/** $XDG_CACHE_HOME/repo-feature-check, or ~/.cache/repo-feature-check. */
+export function defaultCacheDir(): string {
+  const base = process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache');
+  return path.join(base, 'repo-feature-check');
+}
+
+function sha1(data: string | Buffer): string {
+  return crypto.createHash('sha1').update(data).digest('hex');
+}
+
+function readCache(file: string, fingerprint: string, repo: string): Record<string, CachedFile> {
+  try {
+    const cache = JSON.parse(fs.readFileSync(file, 'utf-8')) as CacheFile;
+    if (cache.fingerprint === fingerprint && cache.repo === repo && cache.files) return cache.files;
+  } catch {}
+  return {};
+}
+
+function writeCache(file: string, contents: CacheFile) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  // Write then rename, so an interrupted run never leaves a truncated cache
+  const tmp = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(contents));
+  fs.renameSync(tmp, file);
+}
+
+/**
+ * Extracts symbols from `files` (relative to `repoRoot`), calling `extract`
+ * only for files missing from the cache or changed since. `extract` gets
+ * relative paths and returns symbols for those files. `cacheKey` names the
+ * cache file (default: `repoRoot`), so checkouts of one repo at different
+ * paths can share it.
+ */
+export function extractWithCache(
+  repoRoot: string,
+  files: string[],
+  cacheDir: string,
+  fingerprint: string,
+  extract: (files: string[]) => Symbol[],
+  cacheKey = repoRoot,
+): { symbols: Symbol[]; stats: CacheStats } {
+  const key = sha1(`${CACHE_FORMAT}\0${fingerprint}`);
+  const cacheFile = path.join(cacheDir, `${sha1(cacheKey).slice(0, 16)}.json`);
+  const cached = readCache(cacheFile, key, cacheKey);
+
+  const next: Record<string, CachedFile> = {};
+  const misses: { file: string; mtimeMs: number; size: number; hash: string }[] = [];
+  for (const file of files) {
+    let stat: fs.Stats;
+    try {
+      stat = fs.statSync(path.join(repoRoot, file));
+    } catch {
+      continue;
+    }
+    const prev = cached[file];
+    if (prev && prev.mtimeMs === stat.mtimeMs && prev.size === stat.size) {
+      next[file] = prev;
+      continue;
+    }
+    let hash: string;
+    try {
+      hash = sha1(fs.readFileSync(path.join(repoRoot, file)));
+    } catch {
+      continue;
+    }
+    if (prev && prev.hash === hash) {
+      next[file] = { ...prev, mtimeMs: stat.mtimeMs, size: stat.size };
+      continue;
+    }
+    misses.push({ file, mtimeMs: stat.mtimeMs, size: stat.size, hash });
+  }
+
+  if (misses.length > 0) {
+    const byFile = new Map<string, Symbol[]>(misses.map(m => [m.file, []]));
+    for (const sym of extract(misses.map(m => m.file))) {
+      byFile.get(sym.file)?.push(sym);
+    }
+    for (const m of misses) {
+      next[m.file] = { mtimeMs: m.mtimeMs, size: m.size, hash: m.hash, symbols: byFile.get(m.file)! };
+    }
+  }
+
+  let writeError: string | undefined;
+  try {
+    writeCache(cacheFile, { fingerprint: key, repo: cacheKey, files: next });
+  } catch (err) {
+    writeError = (err as Error).message;
+  }
+
+  // Fresh objects each run: callers attach features and churn to symbols
+  const symbols = files.flatMap(f => (next[f]?.symbols || []).map(s => ({ ...s })));
+  const stats: CacheStats = { hits: Object.keys(next).length - misses.length, misses: misses.length, file: cacheFile };
+  return { symbols, stats: writeError ? { ...stats, writeError } : stats };
+}
@@ -6,7 +6,8 @@
  * Usage:
  *   repo-feature-check /path/to/repo --config features.json [--json output.json] [--since 2025-01-01]
  *
- * Requires: universal-ctags (brew install universal-ctags)
+ * Requires: universal-ctags (brew install universal-ctags), or --extractor ts
+ * for TypeScript/JavaScript-only repos
  *
  * What it does:
  *   1. Runs ctags to extract all symbols with full scope chains
@@ -18,302 +19,25 @@
 
 import fs from 'fs';
 import path from 'path';
-import { execSync, spawnSync } from 'child_process';
-
-
-// ─── Types ───────────────────────────────────────────────────────────────────
-
-interface CtagsEntry {
-  name: string;
-  path: string;
-  line: number;
-  kind: string;
-  scope?: string;
-  scopeKind?: string;
-  pattern?: string;
-}
-
-interface Symbol {
-  name: string;
-  kind: 'function' | 'method' | 'class';
-  file: string;          // relative to repo root
-  line: number;
-  scope?: string;        // parent class/module
-  signature?: string;    // pattern from ctags
-  feature: string;       // assigned feature id
-  featureName: string;
-}
-
-interface FeatureRule {
-  id: string;
-  name: string;
-  category: string;
-  paths: string[];       // path substrings that indicate this feature
-}
-
-interface FeatureConfig {
-  name: string;
-  description?: string;
-  excludePaths?: string[];   // paths to skip entirely
-  excludeChurn?: string[];   // path patterns to exclude from churn analysis
-  features: FeatureRule[];
-}
-
-interface FeatureReport {
-  id: string;
-  name: string;
-  category: string;
-  functions: number;
-  methods: number;
-  classes: number;
-  total: number;
-  // churn (if --since provided)
-  commits?: number;
-  churn?: number;
-  hotspotScore?: number;
-  topFiles?: { path: string; commits: number; churn: number }[];
-}
-
-// ─── ctags runner ────────────────────────────────────────────────────────────
-
-function findCtags(): string {
-  // Prefer homebrew universal-ctags
-  const candidates = [
-    '/opt/homebrew/bin/ctags',
-    '/usr/local/bin/ctags',
-  ];
-  for (const c of candidates) {
-    if (fs.existsSync(c)) {
-      const ver = spawnSync(c, ['--version'], { encoding: 'utf-8' });
-      if (ver.stdout?.includes('Universal Ctags')) return c;
-    }
-  }
-  // Try PATH
-  const which = spawnSync('which', ['ctags'], { encoding: 'utf-8' });
-  if (which.stdout?.trim()) {
-    const ver = spawnSync(which.stdout.trim(), ['--version'], { encoding: 'utf-8' });
-    if (ver.stdout?.includes('Universal Ctags')) return which.stdout.trim();
-  }
-  console.error('Error: universal-ctags not found. Install with: brew install universal-ctags');
-  process.exit(1);
-}
-
-function runCtags(ctagsBin: string, repoRoot: string, excludePaths: string[]): CtagsEntry[] {
-  const excludeArgs = [
-    '--exclude=node_modules',
-    '--exclude=.next',
-    '--exclude=dist',
-    '--exclude=build',
-    '--exclude=.git',
-    '--exclude=*.d.ts',
-    '--exclude=__pycache__',
-    '--exclude=.gradle',
-    '--exclude=target',
-    '--exclude=coverage',
-    ...excludePaths.map(p => `--exclude=${p}`),
-  ];
-
-  const result = spawnSync(ctagsBin, [
-    '--output-format=json',
-    '--languages=TypeScript,Kotlin,JavaScript,Python,Go,Rust,Java',
-    '--kinds-TypeScript=fcmgM',   // function, class, constant(component), method, generator
-    '--kinds-Kotlin=cfmoC',       // class, function, method, object, constant
-    '--kinds-JavaScript=fcmgM',
-    '--kinds-Python=cfm',         // class, function, method/member
-    '--kinds-Go=ftsm',            // function, type, struct, method
-    '--kinds-Rust=fsPtm',         // function, struct, impl, trait, method
-    '--kinds-Java=cmi',           // class, method, interface
-    '--fields=+KZSn',             // Kind, scope, scopeKind, line number
-    '--extras=+q',                // qualified names
-    ...excludeArgs,
-    '-R',
-    repoRoot,
-  ], {
-    encoding: 'utf-8',
-    maxBuffer: 200 * 1024 * 1024,
-    stdio: ['pipe', 'pipe', 'pipe'],
-  });
-
-  if (result.error) {
-    console.error('ctags failed:', result.error.message);
-    process.exit(1);
-  }
-
-  const entries: CtagsEntry[] = [];
-  for (const line of (result.stdout || '').split('\n')) {
-    if (!line.trim()) continue;
-    try {
-      const obj = JSON.parse(line);
-      entries.push({
-        name: obj.name,
-        path: obj.path,
-        line: obj.line || 0,
-        kind: obj.kind || 'unknown',
-        scope: obj.scope,
-        scopeKind: obj.scopeKind,
-        pattern: obj.pattern,
-      });
-    } catch {}
-  }
-  return entries;
-}
-
-// ─── Symbol filtering ────────────────────────────────────────────────────────
-
-const FUNCTION_KINDS = new Set(['function', 'generator']);
-const METHOD_KINDS = new Set(['method']);
-const CLASS_KINDS = new Set(['class', 'object']);
-
-// Filter out noise: lambdas, anonymous, internal framework symbols
-const NOISE_NAMES = new Set(['<lambda>', '<anonymous>', 'anonymous', 'module.exports']);
-
-function filterSymbols(entries: CtagsEntry[], repoRoot: string): Symbol[] {
-  const symbols: Symbol[] = [];
-
-  for (const entry of entries) {
-    // Skip noise
-    if (NOISE_NAMES.has(entry.name)) continue;
-    if (entry.name.startsWith('__')) continue;
-
-    // Determine normalized kind
-    let kind: Symbol['kind'] | null = null;
-    if (FUNCTION_KINDS.has(entry.kind)) kind = 'function';
-    else if (METHOD_KINDS.has(entry.kind)) kind = 'method';
-    else if (CLASS_KINDS.has(entry.kind)) kind = 'class';
-    // ctags marks exported arrow functions / React components as 'constant'
-    else if (entry.kind === 'constant') {
-      const isTsx = entry.path.endsWith('.tsx');
-      const isPascalCase = /^[A-Z][a-zA-Z0-9]+$/.test(entry.name);
-      const isHook = /^use[A-Z]/.test(entry.name);
-      // In .tsx files, include all PascalCase and hook constants (components)
-      // In other files, same heuristic but stricter
-      if (isPascalCase || isHook) {
-        kind = 'function';
-      } else if (isTsx && /^[a-z][a-zA-Z0-9]+$/.test(entry.name)) {
-        // In .tsx, also include camelCase exported constants (HOCs, utilities)
-        kind = 'function';
-      } else {
-        continue;
-      }
-    }
-    else continue;
-
-    const relPath = path.relative(repoRoot, entry.path);
-
-    symbols.push({
-      name: entry.name,
-      kind,
-      file: relPath,
-      line: entry.line,
-      scope: entry.scope,
-      signature: entry.pattern?.replace(/^\/\^/, '').replace(/\$\/$/, '').trim(),
-      feature: '',
-      featureName: '',
-    });
-  }
-
-  // Second pass: scan .tsx/.jsx files for exported arrow functions that
-  // ctags missed entirely (not even as constants)
-  const seenFiles = new Set(symbols.map(s => s.file));
-  const tsxFiles = new Set<string>();
-  for (const entry of entries) {
-    const rel = path.relative(repoRoot, entry.path);
-    if ((rel.endsWith('.tsx') || rel.endsWith('.jsx')) && !tsxFiles.has(rel)) {
-      tsxFiles.add(rel);
-    }
-  }
-
-  for (const relFile of tsxFiles) {
-    const absFile = path.join(repoRoot, relFile);
-    try {
-      const src = fs.readFileSync(absFile, 'utf-8');
-      const exportRe = /export\s+(?:default\s+)?(?:const|function)\s+([A-Z][a-zA-Z0-9]*)/g;
-      let match;
-      while ((match = exportRe.exec(src)) !== null) {
-        const name = match[1];
-        // Skip if ctags already captured this symbol in this file
-        if (symbols.some(s => s.file === relFile && s.name === name)) continue;
-        const line = src.substring(0, match.index).split('\n').length;
-        symbols.push({
-          name,
-          kind: 'function',
-          file: relFile,
-          line,
-          signature: match[0].trim(),
-          feature: '',
-          featureName: '',
-        });
-      }
-    } catch {}
-  }
-
-  return symbols;
-}
-
-// ─── Feature classification ─────────────────────────────────────────────────
-
-function classifySymbol(relPath: string, features: FeatureRule[]): { id: string; name: string; category: string } {
-  const normalized = '/' + relPath.replace(/\\/g, '/');
-  for (const feat of features) {
-    for (const p of feat.paths) {
-      if (normalized.includes(p)) {
-        return { id: feat.id, name: feat.name, category: feat.category };
-      }
-    }
-  }
-  return { id: 'uncategorized', name: 'Uncategorized', category: 'Unknown' };
-}
-
-// ─── Git churn ──────────────────────────────────────────────────────────────
-
-interface FileChurn {
-  path: string;
-  commits: number;
-  additions: number;
-  deletions: number;
-  churn: number;
-}
-
-function getGitChurn(repoRoot: string, since: string, excludePatterns: string[]): FileChurn[] {
-  const commitLog = execSync(
-    `git -C "${repoRoot}" log --since=${since} --format=format: --name-only | sort | uniq -c | sort -rn`,
-    { encoding: 'utf-8', maxBuffer: 50 * 1024 * 1024 }
-  );
-
-  const commitCounts = new Map<string, number>();
-  for (const line of commitLog.trim().split('\n')) {
-    const m = line.trim().match(/^(\d+)\s+(.+)$/);
-    if (m) commitCounts.set(m[2], parseInt(m[1]));
-  }
-
-  const numstatLog = execSync(
-    `git -C "${repoRoot}" log --since=${since} --numstat --format=format: | awk '{if($1 != "-") a[$3]+=$1; if($2 != "-") d[$3]+=$2} END {for(f in a) print a[f], d[f], f}'`,
-    { encoding: 'utf-8', maxBuffer: 50 * 1024 * 1024 }
-  );
-
-  const results: FileChurn[] = [];
-  for (const line of numstatLog.trim().split('\n')) {
-    const parts = line.trim().split(/\s+/);
-    if (parts.length < 3) continue;
-    const adds = parseInt(parts[0]) || 0;
-    const dels = parseInt(parts[1]) || 0;
-    const filePath = parts.slice(2).join(' ');
-    if (!filePath) continue;
-
-    // Apply exclusions
-    if (excludePatterns.some(ex => filePath.includes(ex))) continue;
-
-    results.push({
-      path: filePath,
-      commits: commitCounts.get(filePath) || 0,
-      additions: adds,
-      deletions: dels,
-      churn: adds + dels,
-    });
-  }
-
-  return results.sort((a, b) => b.churn - a.churn);
-}
+import YAML from 'yaml';
+import type { FeatureConfig, FeatureReport, PackageReport, LanguageReport, TestSummary, FileMetrics, SizedSymbol, UnusedSummary, AssignmentSummary, OwnershipSummary, SubFeatureReport } from './types';
+import type { RuleOverlap } from './classify';
+import { loadSnapshot, diffSnapshots, renderDiffText, renderDiffMarkdown } from './diff';
+import { hasChurnWindow, describeChurnWindow, type ChurnWindow } from './churn';
+import { renderMarkdownReport } from './markdown';
+import { renderHtmlReport, sourceLinkTemplate } from './html';
+import { loadConfig } from './config';
+import { defaultCacheDir } from './cache';
+import { sparkline, TREND_INTERVALS, type TrendInterval } from './trends';
+import { renderDependencyDot } from './imports';
+import { evaluateThresholds, renderJUnit, renderSarif } from './check';
+import { proposeConfig } from './init';
+import { TEST_MAPPINGS, type TestMapping } from './test-map';
+import { MEGA_FILE_LINES, MEGA_FILE_SYMBOLS } from './metrics';
+import { MANY_OWNERS } from './codeowners';
+import { runCensus, runHistory, extractSymbols, toSnapshot, EXTRACTORS, type Extractor } from './api';
+import { renderHistoryMarkdown, renderHistoryText } from './history';
+import { buildAssignments, loadAssignments, writeAssignments } from './assignments';
 
 // ─── Main ────────────────────────────────────────────────────────────────────
 
@@ -329,20 +53,27 @@ Step 2: Look at the top-level directory structure. Identify directories
 that should be excluded from analysis — vendored assets, generated code,
 lock files, design docs, third-party bundles, etc. These pollute both
 symbol counts and churn data. Then run:
-  repo-feature-check . --json /tmp/rfc-<repo-name>-<YYYYMMDD-HHmmss>.json --since <chosen-date> --exclude <dir1> --exclude <dir2> ...
+  repo-feature-check . --json /tmp/rfc-<repo-name>-<YYYYMMDD-HHmmss>.json --since <chosen-date> --unused --exclude <dir1> --exclude <dir2> ...
 (Use the actual repo directory name and current timestamp in the filename.)
+If the repo has an assignments file from an earlier analysis (e.g.
+.feature-assignments.yml), add --assignments <file>: classified symbols
+keep their features, and "assignments.unassigned" lists the new ones
+with the feature the rules gave them.
 Note: node_modules, .git, dist, build, and *.d.ts are already excluded
 by default. Use --exclude for project-specific vendored/generated dirs.
 
 Step 3: Read the JSON. Every symbol in the codebase is listed with its
-file path, name, kind, and scope. Categorize ALL of them — not a sample.
+file path, name, kind, and scope. First set aside dead code: symbols in
+"unused.symbols" with "high" confidence are never referenced. List them
+in a "Likely Dead Code" section (count per directory) instead of
+categorizing them. Categorize ALL the others — not a sample.
 Group by directory clusters and use path names and symbol names to assign
 features. Most symbols can be categorized from the index alone.
 
 Step 4: Where a directory cluster's purpose is ambiguous from paths and
 names alone, read actual source files to clarify. Prioritize high-churn
 areas and large clusters. The goal is 100% coverage — every symbol
-assigned to a feature.
+outside Likely Dead Code assigned to a feature.
 
 Step 5: Write the final report to /tmp/rfc-<repo-name>-report.md AND
 display it. The report MUST use markdown pipe tables — not box-drawing
@@ -407,21 +138,78 @@ repo-feature-check — Extract every function, method, and class from a codebase
 
 USAGE
   repo-feature-check <repo-path> [options]
+  repo-feature-check init <repo-path> [--output features.json|features.yaml] [--force] [--min-symbols <n>]
+  repo-feature-check diff <before.json> <after.json> [--format text|markdown] [--report <path>] [--limit <n>]
 
 OPTIONS
   --json <path>       Write full symbol data as JSON to this path
   --since <date>      Overlay git churn data (e.g. --since 2024-01-01)
+  --until <date>      End of the churn window (with or without --since)
+  --rev-range <range> Limit churn to a revision range (e.g. v1.2.0..v1.3.0)
+  --at <ref>          Analyze the tree at a git ref (tag, branch, sha) instead of the
+                      working tree; a churn window then ends at that ref
+  --history <refs>    Per-feature symbol counts at each of these comma-separated refs
+  --every <unit>      Per-feature symbol counts once per week, month or quarter of
+                      HEAD's history (within --since/--until)
+  --coupling          Report file and feature pairs that change in the same commits
+                      (needs a churn window)
+  --authors           Add top contributors and a bus factor to each feature
+                      (needs a churn window)
+  --authors-half-life <days>
+                      Weight author shares toward recent commits
+  --mailmap <path>    Extra git mailmap file for merging author identities
   --exclude <pattern> Exclude paths from extraction and churn (repeatable)
-  --config <path>     Optional feature config for path-based classification
+  --config <path>     Optional feature config (JSON or YAML) for path-based classification
+  --format <fmt>      Stdout report format: text (default) or markdown
+  --report <path>     Write the markdown report (report-template.md layout) to this path
+  --html <path>       Write a self-contained HTML report: treemap, sortable
+                      tables and symbol search
+  --link-template <t> Symbol links in the HTML report, with {file} and {line}
+                      (default: the origin remote's web UI at HEAD)
+  --explain           List symbols matched by more than one feature and which rule won
+  --extractor <name>  auto (default: ctags if installed, else ts), ctags, or ts
+                      (TypeScript compiler API; TS/JS/TSX/JSX only)
+  --by <view>         Group the text report by feature (default) or package
+                      (workspace packages: npm/pnpm/yarn, Gradle, Go, Cargo)
+  --deps              Resolve imports (TS/JS, Python, Go, Kotlin/Java, Rust) into a
+                      feature dependency graph; flags cycles
+  --dot <path>        Write that graph as Graphviz DOT (implies --deps)
+  --tests             Extract test files separately and report test symbols, test
+                      files and the test/production ratio per feature
+  --test-mapping <m>  mirror (default: the feature of the source file a test
+                      mirrors, else the rules) or rules (implies --tests)
+  --unused            Report likely-unused symbols per feature, with high, medium
+                      or low confidence (allowlists: "unused" in the config)
+  --assignments <path>
+                      Pin directories, files and symbols to features and sub-features
+                      (JSON or YAML); reports new symbols still unassigned
+  --emit-assignments <path>
+                      Write the current classification in the --assignments format
+  --codeowners <path> CODEOWNERS file to read (default: .github/, .gitlab/, the repo
+                      top or docs/); owners are reported per feature and file
+  --no-codeowners     Ignore CODEOWNERS
+  --check             Enforce the config's "thresholds"; exit 1 on any violation
+  --junit <path>      Write check results as JUnit XML (implies --check)
+  --sarif <path>      Write check violations as SARIF 2.1.0 (implies --check)
+  --interval <unit>   Churn time series per feature by week, month or quarter,
+                      with a rising/falling/flat trend (needs a churn window)
+  --cache-dir <path>  Where extracted symbols are cached between runs
+                      (default: ~/.cache/repo-feature-check)
+  --no-cache          Re-extract every file and leave the cache untouched
   --help              Show this help
 
 REQUIRES
-  universal-ctags     brew install universal-ctags
+  universal-ctags     brew install universal-ctags (not needed with --extractor ts)
 
 EXAMPLES
   repo-feature-check .
   repo-feature-check /path/to/repo --json /tmp/symbols.json --since 2024-06-01
   repo-feature-check . --config my-features.json --json /tmp/out.json
+  repo-feature-check . --config my-features.json --since 2024-06-01 --report /tmp/report.md
+  repo-feature-check diff /tmp/v1.json /tmp/v2.json --format markdown
+  repo-feature-check . --config my-features.json --history v1.0,v2.0,HEAD --report /tmp/growth.md
+  repo-feature-check . --config my-features.json --every month --since 2024-01-01 --json /tmp/growth.json
+  repo-feature-check init . --output features.yaml
 
 USAGE WITH CLAUDE CODE
   Run with no arguments to get the Claude Code prompt:
@@ -432,7 +220,7 @@ USAGE WITH CLAUDE CODE
   autonomously.
 `;
 
-function main() {
+async function main() {
   const args = process.argv.slice(2);
 
   if (args.includes('--help') || args.includes('-h')) {
@@ -440,6 +228,15 @@ function main() {
     process.exit(0);
   }
 
+  if (args[0] === 'init') {
+    await runInit(args.slice(1));
+    return;
+  }
+
+  if (args[0] === 'diff') {
+    runDiff(args.slice(1));
+    return;
+  }
 
   const repoRoot = args.find(a => !a.startsWith('--'));
   const configIdx = args.indexOf('--config');
@@ -448,6 +245,59 @@ function main() {
   const jsonOut = jsonIdx >= 0 ? args[jsonIdx + 1] : null;
   const sinceIdx = args.indexOf('--since');
   const since = sinceIdx >= 0 ? args[sinceIdx + 1] : null;
+  const untilIdx = args.indexOf('--until');
+  const until = untilIdx >= 0 ? args[untilIdx + 1] : null;
+  const revRangeIdx = args.indexOf('--rev-range');
+  const revRange = revRangeIdx >= 0 ? args[revRangeIdx + 1] : null;
+  const atIdx = args.indexOf('--at');
+  const at = atIdx >= 0 ? args[atIdx + 1] : null;
+  const historyIdx = args.indexOf('--history');
+  const historyRefs = historyIdx >= 0 ? (args[historyIdx + 1] || '').split(',').map(r => r.trim()).filter(Boolean) : null;
+  const everyIdx = args.indexOf('--every');
+  const every = everyIdx >= 0 ? args[everyIdx + 1] as TrendInterval : null;
+  const churnWindow: ChurnWindow = { since, until, revRange };
+  const hasChurn = hasChurnWindow(churnWindow);
+  const wantCoupling = args.includes('--coupling');
+  const wantAuthors = args.includes('--authors');
+  const halfLifeIdx = args.indexOf('--authors-half-life');
+  const halfLifeDays = halfLifeIdx >= 0 ? parseFloat(args[halfLifeIdx + 1]) || null : null;
+  const mailmapIdx = args.indexOf('--mailmap');
+  const mailmap = mailmapIdx >= 0 ? args[mailmapIdx + 1] : null;
+  const formatIdx = args.indexOf('--format');
+  const format = formatIdx >= 0 ? args[formatIdx + 1] : 'text';
+  const reportIdx = args.indexOf('--report');
+  const reportOut = reportIdx >= 0 ? args[reportIdx + 1] : null;
+  const htmlIdx = args.indexOf('--html');
+  const htmlOut = htmlIdx >= 0 ? args[htmlIdx + 1] : null;
+  const linkTemplateIdx = args.indexOf('--link-template');
+  const linkTemplate = linkTemplateIdx >= 0 ? args[linkTemplateIdx + 1] : null;
+  const explain = args.includes('--explain');
+  const extractorIdx = args.indexOf('--extractor');
+  const extractor = extractorIdx >= 0 ? args[extractorIdx + 1] : 'auto';
+  const byIdx = args.indexOf('--by');
+  const by = byIdx >= 0 ? args[byIdx + 1] : 'feature';
+  const cacheDirIdx = args.indexOf('--cache-dir');
+  const cacheDir = args.includes('--no-cache') ? null : cacheDirIdx >= 0 ? args[cacheDirIdx + 1] : defaultCacheDir();
+  const dotIdx = args.indexOf('--dot');
+  const dotOut = dotIdx >= 0 ? args[dotIdx + 1] : null;
+  const wantDeps = args.includes('--deps') || !!dotOut;
+  const junitIdx = args.indexOf('--junit');
+  const junitOut = junitIdx >= 0 ? args[junitIdx + 1] : null;
+  const sarifIdx = args.indexOf('--sarif');
+  const sarifOut = sarifIdx >= 0 ? args[sarifIdx + 1] : null;
+  const wantCheck = args.includes('--check') || !!junitOut || !!sarifOut;
+  const testMappingIdx = args.indexOf('--test-mapping');
+  const testMapping = testMappingIdx >= 0 ? args[testMappingIdx + 1] as TestMapping : 'mirror';
+  const wantTests = args.includes('--tests') || testMappingIdx >= 0;
+  const wantUnused = args.includes('--unused');
+  const assignmentsIdx = args.indexOf('--assignments');
+  const assignmentsFile = assignmentsIdx >= 0 ? args[assignmentsIdx + 1] : null;
+  const emitAssignmentsIdx = args.indexOf('--emit-assignments');
+  const emitAssignmentsOut = emitAssignmentsIdx >= 0 ? args[emitAssignmentsIdx + 1] : null;
+  const codeownersIdx = args.indexOf('--codeowners');
+  const codeownersFile = args.includes('--no-codeowners') ? false : codeownersIdx >= 0 ? args[codeownersIdx + 1] : undefined;
+  const intervalIdx = args.indexOf('--interval');
+  const interval = intervalIdx >= 0 ? args[intervalIdx + 1] as TrendInterval : null;
   // Collect all --exclude values
   const cliExcludes: string[] = [];
   for (let i = 0; i < args.length; i++) {
@@ -463,129 +313,234 @@ function main() {
     process.exit(0);
   }
 
-  const absRoot = path.resolve(repoRoot);
+  if (format !== 'text' && format !== 'markdown') {
+    console.error(`Error: unknown --format "${format}" (expected text or markdown)`);
+    process.exit(1);
+  }
+  if (!EXTRACTORS.includes(extractor as Extractor)) {
+    console.error(`Error: unknown --extractor "${extractor}" (expected auto, ctags or ts)`);
+    process.exit(1);
+  }
+  if (by !== 'feature' && by !== 'package') {
+    console.error(`Error: unknown --by "${by}" (expected feature or package)`);
+    process.exit(1);
+  }
+  if (!TEST_MAPPINGS.includes(testMapping)) {
+    console.error(`Error: unknown --test-mapping "${testMapping}" (expected rules or mirror)`);
+    process.exit(1);
+  }
+  if (interval && !TREND_INTERVALS.includes(interval)) {
+    console.error(`Error: unknown --interval "${interval}" (expected week, month or quarter)`);
+    process.exit(1);
+  }
+  if (every && !TREND_INTERVALS.includes(every)) {
+    console.error(`Error: unknown --every "${every}" (expected week, month or quarter)`);
+    process.exit(1);
+  }
+  if (historyRefs && historyRefs.length === 0) {
+    console.error('Error: --history needs comma-separated refs (e.g. v1.0,v2.0,HEAD); use --every for regular intervals');
+    process.exit(1);
+  }
+  if (at && (historyRefs || every)) {
+    console.error(`Error: --at and ${historyRefs ? '--history' : '--every'} can't be combined`);
+    process.exit(1);
+  }
+  if ((wantCoupling || wantAuthors || interval) && !hasChurn && !historyRefs && !every) {
+    const flag = wantCoupling ? '--coupling' : wantAuthors ? '--authors' : '--interval';
+    console.error(`Error: ${flag} needs a churn window (--since, --until or --rev-range)`);
+    process.exit(1);
+  }
 
   // Load config
   let config: FeatureConfig;
   if (configFile) {
-    config = JSON.parse(fs.readFileSync(configFile, 'utf-8'));
+    try {
+      const loaded = loadConfig(configFile);
+      config = loaded.config;
+      for (const w of loaded.warnings) console.error(`Warning: ${w}`);
+    } catch (err) {
+      console.error(`Error: ${(err as Error).message}`);
+      process.exit(1);
+    }
   } else {
     config = { name: 'default', features: [], excludePaths: [], excludeChurn: [] };
   }
 
-  // Merge CLI excludes into config
-  const allExcludes = [...(config.excludePaths || []), ...cliExcludes];
-  const allChurnExcludes = [...(config.excludeChurn || []), ...cliExcludes];
-
-  // 1. Run ctags
-  const ctagsBin = findCtags();
-  console.error(`Running ctags on ${absRoot}...`);
-  const rawEntries = runCtags(ctagsBin, absRoot, allExcludes);
-  console.error(`  ctags found ${rawEntries.length.toLocaleString()} raw entries`);
-
-  // 2. Filter to meaningful symbols
-  const symbols = filterSymbols(rawEntries, absRoot);
-  console.error(`  Filtered to ${symbols.length.toLocaleString()} symbols (functions, methods, classes)`);
-
-  // 3. Classify each symbol
-  for (const sym of symbols) {
-    const { id, name, category } = classifySymbol(sym.file, config.features);
-    sym.feature = id;
-    sym.featureName = name;
+  // Validate assignments before the (slow) extraction; runCensus reads them again
+  if (assignmentsFile) {
+    try {
+      loadAssignments(assignmentsFile);
+    } catch (err) {
+      console.error(`Error: ${(err as Error).message}`);
+      process.exit(1);
+    }
   }
 
-  // 4. Aggregate by feature
-  const featureMap = new Map<string, FeatureReport>();
-  for (const feat of config.features) {
-    featureMap.set(feat.id, {
-      id: feat.id, name: feat.name, category: feat.category,
-      functions: 0, methods: 0, classes: 0, total: 0,
+  if (historyRefs || every) {
+    const history = await runHistory({
+      root: repoRoot,
+      config,
+      refs: historyRefs || undefined,
+      every,
+      since,
+      until,
+      extractor: extractor as Extractor,
+      excludes: cliExcludes,
+      cacheDir,
+      assignments: assignmentsFile || undefined,
+      log: console.error,
+      onWarning: w => console.error(`Warning: ${w}`),
     });
+    if (jsonOut) {
+      fs.writeFileSync(jsonOut, JSON.stringify(history, null, 2));
+      console.error(`Written to ${jsonOut}`);
+    }
+    if (reportOut) {
+      fs.writeFileSync(reportOut, renderHistoryMarkdown(history));
+      console.error(`Report written to ${reportOut}`);
+    }
+    console.log(format === 'markdown' ? renderHistoryMarkdown(history) : renderHistoryText(history));
+    return;
+  }
+
+  if (wantCheck && Object.keys(config.thresholds || {}).length === 0 && !config.features.some(f => f.thresholds)) {
+    console.error('Error: --check needs "thresholds" in the feature config (--config)');
+    process.exit(1);
   }
-  featureMap.set('uncategorized', {
-    id: 'uncategorized', name: 'Uncategorized', category: 'Unknown',
-    functions: 0, methods: 0, classes: 0, total: 0,
+
+  const result = await runCensus({
+    root: repoRoot,
+    config,
+    extractor: extractor as Extractor,
+    excludes: cliExcludes,
+    cacheDir,
+    since,
+    until,
+    revRange,
+    mailmap,
+    coupling: wantCoupling,
+    authors: wantAuthors,
+    authorsHalfLife: halfLifeDays,
+    interval,
+    dependencies: wantDeps,
+    tests: wantTests,
+    testMapping,
+    packages: by === 'package',
+    unused: wantUnused,
+    assignments: assignmentsFile || undefined,
+    at,
+    codeowners: codeownersFile,
+    explain,
+    log: console.error,
+    onWarning: w => console.error(`Warning: ${w}`),
   });
+  const {
+    root: absRoot, symbols, features: sorted, hotFiles: allTopFiles, hotSymbols, coupling, dependencies,
+    languages: languageReports, tests: testSummary, unused, assignments, codeowners, packages: packageReports, coveragePct,
+    largestSymbols: sizedSymbols, megaFiles, riskiestFiles,
+  } = result;
+  const overlaps = result.overlaps || [];
+  const featureMap = new Map(sorted.map(f => [f.id, f]));
+  const { symbols: totalSymbols, functions: totalFunctions, methods: totalMethods, classes: totalClasses } = result.totals;
+
+  if (by === 'package' && result.workspaces.length === 0) {
+    console.error('Warning: no workspaces detected; --by package shows the repo as a single package');
+  }
 
-  for (const sym of symbols) {
-    let report = featureMap.get(sym.feature);
-    if (!report) {
-      report = {
-        id: sym.feature, name: sym.featureName, category: 'Unknown',
-        functions: 0, methods: 0, classes: 0, total: 0,
-      };
-      featureMap.set(sym.feature, report);
-    }
-    if (sym.kind === 'function') report.functions++;
-    else if (sym.kind === 'method') report.methods++;
-    else if (sym.kind === 'class') report.classes++;
-    report.total++;
-  }
-
-  // 5. Overlay git churn if --since provided
-  if (since) {
-    console.error(`Extracting git churn since ${since}...`);
-    const churnData = getGitChurn(absRoot, since, allChurnExcludes);
-
-    // Aggregate churn by feature
-    for (const file of churnData) {
-      const { id } = classifySymbol(file.path, config.features);
-      const report = featureMap.get(id);
-      if (!report) continue;
-      report.commits = (report.commits || 0) + file.commits;
-      report.churn = (report.churn || 0) + file.churn;
-      if (!report.topFiles) report.topFiles = [];
-      report.topFiles.push({ path: file.path, commits: file.commits, churn: file.churn });
-    }
+  if (dotOut && dependencies) {
+    const names = new Map([...config.features, ...sorted].map(f => [f.id, f.name]));
+    fs.writeFileSync(dotOut, renderDependencyDot(dependencies, names, path.basename(absRoot)));
+    console.error(`Dependency graph written to ${dotOut}`);
+  }
 
-    // Compute hotspot scores and trim topFiles
-    for (const report of featureMap.values()) {
-      if (report.churn && report.commits) {
-        report.hotspotScore = Math.round(report.churn * Math.sqrt(report.commits));
-      }
-      if (report.topFiles) {
-        report.topFiles.sort((a, b) => b.churn - a.churn);
-        report.topFiles = report.topFiles.slice(0, 10);
-      }
-    }
+  if (emitAssignmentsOut) {
+    writeAssignments(emitAssignmentsOut, buildAssignments(symbols, sorted, assignments?.mode));
+    console.error(`Assignments written to ${emitAssignmentsOut}`);
   }
 
-  // Sort by total symbols (or hotspot score if churn available)
-  const sorted = [...featureMap.values()]
-    .filter(f => f.total > 0 || (f.churn && f.churn > 0))
-    .sort((a, b) => {
-      if (since && a.hotspotScore !== undefined && b.hotspotScore !== undefined) {
-        return b.hotspotScore - a.hotspotScore;
-      }
-      return b.total - a.total;
+  // CI gate: evaluate thresholds, write JUnit/SARIF, fail the run on violations
+  if (wantCheck) {
+    const check = evaluateThresholds(config, {
+      features: sorted,
+      symbols,
+      uncategorizedPct: totalSymbols > 0 ? Math.round((result.uncategorized / totalSymbols) * 1000) / 10 : 0,
+      hasChurn,
     });
-
-  // Stats
-  const totalSymbols = symbols.length;
-  const totalFunctions = symbols.filter(s => s.kind === 'function').length;
-  const totalMethods = symbols.filter(s => s.kind === 'method').length;
-  const totalClasses = symbols.filter(s => s.kind === 'class').length;
-  const uncatCount = featureMap.get('uncategorized')?.total || 0;
-  const coveragePct = ((1 - uncatCount / totalSymbols) * 100).toFixed(1);
+    if (junitOut) {
+      fs.writeFileSync(junitOut, renderJUnit(check, `repo-feature-check ${path.basename(absRoot)}`));
+      console.error(`JUnit results written to ${junitOut}`);
+    }
+    if (sarifOut) {
+      fs.writeFileSync(sarifOut, renderSarif(check, configFile, toolVersion()));
+      console.error(`SARIF results written to ${sarifOut}`);
+    }
+    const skipped = check.checks.filter(c => c.skipped);
+    console.error(`Check: ${check.checks.length} checks, ${check.violations.length} violations${skipped.length ? `, ${skipped.length} skipped` : ''}`);
+    for (const v of check.violations) console.error(`  ✗ ${v.message}`);
+    for (const c of skipped) console.error(`  - ${c.rule} for ${c.target} skipped: ${c.skipped}`);
+    if (check.violations.length > 0) process.exitCode = 1;
+  }
 
   // JSON output
   if (jsonOut) {
-    const output = {
-      repo: absRoot,
-      extractedAt: new Date().toISOString(),
-      since: since || null,
-      totals: { symbols: totalSymbols, functions: totalFunctions, methods: totalMethods, classes: totalClasses },
-      coverageRate: coveragePct + '%',
-      features: sorted,
-      symbols: symbols.map(s => ({
-        name: s.name, kind: s.kind, file: s.file, line: s.line,
-        scope: s.scope, feature: s.feature,
-      })),
-    };
-    fs.writeFileSync(jsonOut, JSON.stringify(output, null, 2));
+    fs.writeFileSync(jsonOut, JSON.stringify(toSnapshot(result), null, 2));
     console.error(`Written to ${jsonOut} (${(fs.statSync(jsonOut).size / 1024 / 1024).toFixed(1)} MB)`);
   }
 
+  // HTML report
+  if (htmlOut) {
+    fs.writeFileSync(htmlOut, renderHtmlReport({
+      repoName: path.basename(absRoot),
+      analyzedAt: new Date(),
+      churnWindow: hasChurn ? describeChurnWindow(churnWindow) : null,
+      totalSymbols,
+      coveragePct,
+      features: sorted,
+      hotFiles: allTopFiles,
+      hotSymbols,
+      symbols,
+      churn: result.churn,
+      linkTemplate: linkTemplate || sourceLinkTemplate(absRoot, result.at?.commit),
+    }));
+    console.error(`HTML report written to ${htmlOut} (${(fs.statSync(htmlOut).size / 1024 / 1024).toFixed(1)} MB)`);
+  }
+
+  // Markdown report
+  if (reportOut || format === 'markdown') {
+    const markdown = renderMarkdownReport({
+      repoName: path.basename(absRoot),
+      analyzedAt: new Date(),
+      at: result.at,
+      churnWindow: hasChurn ? describeChurnWindow(churnWindow) : null,
+      totalSymbols,
+      coveragePct,
+      features: sorted,
+      hotFiles: allTopFiles,
+      hotSymbols,
+      coupling,
+      interval,
+      dependencies,
+      languages: languageReports,
+      tests: testSummary,
+      unused,
+      assignments,
+      codeowners,
+      largestSymbols: sizedSymbols,
+      megaFiles,
+      riskiestFiles,
+    });
+    if (reportOut) {
+      fs.writeFileSync(reportOut, markdown);
+      console.error(`Report written to ${reportOut}`);
+    }
+    if (format === 'markdown') {
+      console.log(markdown);
+      // Keep stdout a clean markdown document
+      if (explain) printOverlaps(overlaps, console.error);
+      return;
+    }
+  }
+
   // Text report
   console.log('');
   console.log('╔══════════════════════════════════════════════════════════════════════════════════════╗');
@@ -593,14 +548,93 @@ function main() {
   console.log('╚══════════════════════════════════════════════════════════════════════════════════════╝');
   console.log('');
   console.log(`  Repo:         ${absRoot}`);
+  if (result.at) console.log(`  Ref:          ${result.at.ref} (${result.at.commit.slice(0, 12)}, ${result.at.date.slice(0, 10)})`);
   console.log(`  Functions:    ${totalFunctions.toLocaleString()}`);
   console.log(`  Methods:      ${totalMethods.toLocaleString()}`);
   console.log(`  Classes:      ${totalClasses.toLocaleString()}`);
   console.log(`  Total:        ${totalSymbols.toLocaleString()}`);
   console.log(`  Categorized:  ${coveragePct}%`);
-  if (since) console.log(`  Churn since:  ${since}`);
+  if (hasChurn) console.log(`  Churn:        ${describeChurnWindow(churnWindow)}`);
   console.log('');
 
+  if (languageReports.length > 1) printLanguages(languageReports);
+
+  if (packageReports && by === 'package') {
+    printPackages(packageReports, featureMap, hasChurn);
+  } else {
+    printCategories(sorted, hasChurn);
+  }
+
+  if (testSummary) printTests(sorted, testSummary, hasChurn);
+  if (unused) printUnused(sorted, unused);
+  if (assignments) printAssignments(assignments);
+  if (codeowners) printCodeowners(sorted, codeowners, hasChurn);
+
+  // Top churned files
+  if (hasChurn) {
+    console.log('  ── TOP 20 HOTTEST FILES ───────────────────────────────────────────────────────────');
+    console.log('');
+    for (const f of allTopFiles.slice(0, 20)) {
+      const where = f.package ? `${f.package}: ` : '';
+      console.log(`  ${f.churn.toLocaleString().padStart(7)} churn  ${String(f.commits).padStart(3)} commits  [${f.feature.padEnd(24)}]  ${where}${f.path}`);
+    }
+    console.log('');
+
+    console.log('  ── TOP 20 HOTTEST SYMBOLS ─────────────────────────────────────────────────────────');
+    console.log('');
+    for (const s of hotSymbols) {
+      const qualified = s.scope ? `${s.scope}.${s.name}` : s.name;
+      console.log(`  ${s.churn.toLocaleString().padStart(7)} churn  ${String(s.commits).padStart(3)} commits  [${s.feature.padEnd(24)}]  ${qualified}  ${s.file}:${s.line}`);
+    }
+    console.log('');
+  }
+
+  printSize(sizedSymbols, megaFiles, riskiestFiles);
+
+  if (coupling) {
+    const featureName = (id: string) => featureMap.get(id)?.name || id;
+    console.log(`  ── CO-CHANGE COUPLING (${coupling.commits.toLocaleString()} commits${coupling.skipped ? `, ${coupling.skipped} oversized skipped` : ''}) ──────────────────────────`);
+    console.log('');
+    console.log('  Features changed together:');
+    for (const p of coupling.features) {
+      console.log(`  ${String(p.coChanges).padStart(5)} co-changes  ${(p.confidence * 100).toFixed(0).padStart(3)}%  ${featureName(p.a)} ↔ ${featureName(p.b)}`);
+    }
+    if (coupling.features.length === 0) console.log('    (none)');
+    console.log('');
+    console.log('  Files changed together:');
+    for (const p of coupling.files) {
+      console.log(`  ${String(p.coChanges).padStart(5)} co-changes  ${(p.confidence * 100).toFixed(0).padStart(3)}%  ${p.a} ↔ ${p.b}`);
+    }
+    if (coupling.files.length === 0) console.log('    (none)');
+    console.log('');
+  }
+
+  if (dependencies) {
+    const featureName = (id: string) => featureMap.get(id)?.name || id;
+    console.log(`  ── FEATURE DEPENDENCIES (${dependencies.resolved.toLocaleString()} of ${dependencies.imports.toLocaleString()} imports resolved) ──────────────────────`);
+    console.log('');
+    for (const e of dependencies.edges.slice(0, 20)) {
+      console.log(`  ${String(e.imports).padStart(5)} imports  ${featureName(e.from)} → ${featureName(e.to)}`);
+    }
+    if (dependencies.edges.length === 0) console.log('    (no imports between features)');
+    console.log('');
+    if (dependencies.mostDependedOn.length > 0) {
+      console.log('  Most depended on:');
+      for (const d of dependencies.mostDependedOn) {
+        console.log(`  ${String(d.dependents).padStart(5)} dependents  ${featureName(d.feature)}  (${d.imports} imports)`);
+      }
+      console.log('');
+    }
+    for (const cycle of dependencies.cycles) {
+      console.log(`  ⚠ Cycle: ${cycle.map(featureName).join(' ⇄ ')}`);
+    }
+    if (dependencies.cycles.length > 0) console.log('');
+  }
+
+  if (explain) printOverlaps(overlaps, console.log);
+}
+
+function printCategories(sorted: FeatureReport[], hasChurn: boolean) {
   // Group by category
   const categories = new Map<string, FeatureReport[]>();
   for (const r of sorted) {
@@ -616,8 +650,6 @@ function main() {
       return bTotal - aTotal;
     });
 
-  const hasChurn = !!since;
-
   for (const [cat, features] of catOrder) {
     const catTotal = features.reduce((s, r) => s + r.total, 0);
     const catChurn = hasChurn ? features.reduce((s, r) => s + (r.churn || 0), 0) : 0;
@@ -639,28 +671,347 @@ function main() {
       if (hasChurn && feat.churn) {
         parts.push(`${feat.churn.toLocaleString().padStart(7)} churn`);
       }
+      if (feat.series) {
+        parts.push(`${sparkline(feat.series.map(p => p.churn))}${feat.trend ? ` ${feat.trend}` : ''}`);
+      }
       console.log(`  │  ${feat.name.padEnd(32)} ${parts.join('  ')}`);
+      if (feat.authors?.length) {
+        const owners = feat.authors.slice(0, 3).map(a => `${a.name} ${Math.round(a.share * 100)}%`).join(', ');
+        console.log(`  │      bus factor ${feat.busFactor}  ·  ${owners}`);
+      }
+      if (feat.subFeatures) printSubFeatures(feat.subFeatures, '', hasChurn);
     }
     console.log('  │');
   }
+}
 
-  // Top churned files
-  if (hasChurn) {
-    const allTopFiles: { path: string; commits: number; churn: number; feature: string }[] = [];
-    for (const feat of sorted) {
-      for (const f of feat.topFiles || []) {
-        allTopFiles.push({ ...f, feature: feat.name });
-      }
+// The largest sub-features under a feature line, two levels deep, names
+// aligned with the feature names
+function printSubFeatures(nodes: SubFeatureReport[], indent: string, hasChurn: boolean) {
+  const MAX_SHOWN = 5;
+  const shown = nodes.slice(0, MAX_SHOWN);
+  for (const [i, node] of shown.entries()) {
+    const last = i === shown.length - 1 && nodes.length <= MAX_SHOWN;
+    const label = `${indent}${last ? '└─' : '├─'} ${node.name}`;
+    const parts = [
+      `${String(node.total).padStart(5)} sym`,
+      `${String(node.functions).padStart(4)}f`,
+      `${String(node.methods).padStart(5)}m`,
+      `${String(node.classes).padStart(4)}c`,
+    ];
+    if (hasChurn && node.churn) parts.push(`${node.churn.toLocaleString().padStart(7)} churn`);
+    console.log(`  │  ${label.slice(0, 32).padEnd(32)} ${parts.join('  ')}`);
+    if (node.subFeatures && indent === '') printSubFeatures(node.subFeatures, last ? '   ' : '│  ', hasChurn);
+  }
+  if (nodes.length > MAX_SHOWN) console.log(`  │  ${indent}└─ … ${nodes.length - MAX_SHOWN} more`);
+}
+
+// Packages with their symbol totals, then the package × feature matrix
+function printPackages(packages: PackageReport[], featureMap: Map<string, FeatureReport>, hasChurn: boolean) {
+  console.log(`  ┌─ PACKAGES (${packages.length})`);
+  for (const pkg of packages) {
+    const parts = [
+      `${String(pkg.total).padStart(5)} sym`,
+      `${String(pkg.functions).padStart(4)}f`,
+      `${String(pkg.methods).padStart(5)}m`,
+      `${String(pkg.classes).padStart(4)}c`,
+    ];
+    if (hasChurn && pkg.churn) parts.push(`${pkg.churn.toLocaleString().padStart(7)} churn`);
+    console.log(`  │  ${pkg.name.padEnd(32)} ${parts.join('  ')}  ${pkg.dir}`);
+  }
+  console.log('  │');
+  console.log('');
+
+  // Widest features first; the rest are folded into "other"
+  const MAX_COLUMNS = 8;
+  const featureTotals = new Map<string, number>();
+  for (const pkg of packages) {
+    for (const [id, n] of Object.entries(pkg.features)) featureTotals.set(id, (featureTotals.get(id) || 0) + n);
+  }
+  const columns = [...featureTotals.entries()].sort((a, b) => b[1] - a[1]).map(([id]) => id);
+  const shown = columns.length > MAX_COLUMNS ? columns.slice(0, MAX_COLUMNS - 1) : columns;
+  const hasOther = shown.length < columns.length;
+  const header = shown.map(id => (featureMap.get(id)?.name || id).slice(0, 10).padStart(10));
+  if (hasOther) header.push('other'.padStart(10));
+
+  console.log('  ── PACKAGE × FEATURE (symbols) ────────────────────────────────────────────────────');
+  console.log('');
+  console.log(`  ${''.padEnd(28)} ${header.join(' ')}`);
+  for (const pkg of packages) {
+    const cells = shown.map(id => (pkg.features[id] ? String(pkg.features[id]) : '·').padStart(10));
+    if (hasOther) {
+      const other = columns.slice(shown.length).reduce((sum, id) => sum + (pkg.features[id] || 0), 0);
+      cells.push((other ? String(other) : '·').padStart(10));
     }
-    allTopFiles.sort((a, b) => b.churn - a.churn);
+    console.log(`  ${pkg.name.slice(0, 28).padEnd(28)} ${cells.join(' ')}`);
+  }
+  console.log('');
+}
 
-    console.log('  ── TOP 20 HOTTEST FILES ───────────────────────────────────────────────────────────');
+function printTests(sorted: FeatureReport[], tests: TestSummary, hasChurn: boolean) {
+  const how = tests.mapping === 'mirror' ? `${tests.mirrored} mirrored, ${tests.files - tests.mirrored} by rules` : 'by rules';
+  console.log(`  ── TESTS (${tests.files.toLocaleString()} files, ${tests.symbols.toLocaleString()} symbols; ${how}) ──────────────────────────`);
+  console.log('');
+  for (const feat of sorted) {
+    if (!feat.testSymbols && feat.id === 'uncategorized') continue;
+    const ratio = feat.testRatio === null || feat.testRatio === undefined ? '    –' : feat.testRatio.toFixed(2).padStart(5);
+    console.log(`  ${feat.name.padEnd(32)} ${String(feat.total).padStart(5)} sym  ${String(feat.testSymbols || 0).padStart(5)} test  ${String(feat.testFiles || 0).padStart(4)} files  ratio ${ratio}`);
+  }
+  console.log('');
+  if (tests.untested.length > 0) {
+    console.log(`  No tests${hasChurn ? ' (hottest first)' : ''}:`);
+    for (const id of tests.untested) {
+      const feat = sorted.find(f => f.id === id)!;
+      const churn = hasChurn ? `  ${(feat.churn || 0).toLocaleString().padStart(7)} churn` : '';
+      console.log(`    ${feat.name.padEnd(32)} ${String(feat.total).padStart(5)} sym${churn}`);
+    }
     console.log('');
-    for (const f of allTopFiles.slice(0, 20)) {
+  }
+}
+
+function printUnused(sorted: FeatureReport[], unused: UnusedSummary) {
+  const total = unused.high + unused.medium + unused.low;
+  console.log(`  ── LIKELY UNUSED (${total.toLocaleString()} symbols: ${unused.high} high, ${unused.medium} medium, ${unused.low} low confidence) ──────────`);
+  console.log('');
+  for (const feat of sorted) {
+    if (!feat.unused) continue;
+    const count = feat.unused.high + feat.unused.medium + feat.unused.low;
+    if (count === 0) continue;
+    const pct = `${Math.round((count / feat.total) * 100)}%`.padStart(4);
+    console.log(`  ${feat.name.padEnd(32)} ${String(count).padStart(5)} sym  ${pct} of feature  ${String(feat.unused.high).padStart(4)} high  ${String(feat.unused.medium).padStart(4)} med  ${String(feat.unused.low).padStart(4)} low`);
+  }
+  if (total === 0) console.log('    (none)');
+  console.log('');
+
+  const high = unused.symbols.filter(s => s.confidence === 'high');
+  if (high.length > 0) {
+    const names = new Map(sorted.map(f => [f.id, f.name]));
+    console.log(`  High confidence${high.length > 20 ? ' (first 20; all in --json)' : ''}:`);
+    for (const s of high.slice(0, 20)) {
+      const qualified = s.scope ? `${s.scope}.${s.name}` : s.name;
+      console.log(`    [${(names.get(s.feature) || s.feature).padEnd(24)}]  ${qualified}  ${s.file}:${s.line}`);
+    }
+    console.log('');
+  }
+  if (unused.allowed > 0) {
+    console.log(`  ${unused.allowed.toLocaleString()} unreferenced symbols kept by entry point, hook or public API allowlists`);
+    console.log('');
+  }
+}
+
+function printAssignments(assignments: AssignmentSummary) {
+  const entries = `${assignments.directories} directories, ${assignments.files} files, ${assignments.symbols} symbols`;
+  console.log(`  ── ASSIGNMENTS (${entries}; ${assignments.mode}) ──────────────────────────`);
+  console.log('');
+  console.log(`  ${assignments.assigned.toLocaleString().padStart(7)} symbols assigned by ${assignments.file}`);
+  console.log(`  ${assignments.uncovered.toLocaleString().padStart(7)} symbols not covered (new since it was written)`);
+  console.log(`  ${assignments.unassigned.filter(s => s.feature === 'uncategorized').length.toLocaleString().padStart(7)} of those match no feature rule either`);
+  if (assignments.stale > 0) console.log(`  ${assignments.stale.toLocaleString().padStart(7)} stale entries (no matching file or symbol)`);
+  console.log('');
+  if (assignments.unassigned.length > 0) {
+    console.log(`  Unassigned${assignments.unassigned.length > 20 ? ' (first 20; all in --json)' : ''}:`);
+    for (const s of assignments.unassigned.slice(0, 20)) {
+      const qualified = s.scope ? `${s.scope}.${s.name}` : s.name;
+      console.log(`    [${s.feature.padEnd(24)}]  ${s.kind.padEnd(8)}  ${qualified}  ${s.file}:${s.line}`);
+    }
+    console.log('');
+  }
+}
+
+function printCodeowners(sorted: FeatureReport[], codeowners: OwnershipSummary, hasChurn: boolean) {
+  const owned = codeowners.files - codeowners.unownedFiles;
+  console.log(`  ── CODEOWNERS (${codeowners.file}: ${codeowners.rules} rules, ${codeowners.owners} owners; ${owned.toLocaleString()} of ${codeowners.files.toLocaleString()} files owned) ──────────`);
+  console.log('');
+  for (const feat of sorted) {
+    if (!feat.owners) continue;
+    const top = feat.owners.slice(0, 3).map(o => `${o.owner} ${Math.round(o.share * 100)}%`).join(', ');
+    const unowned = feat.unownedFiles ? `${String(feat.unownedFiles).padStart(4)} unowned` : ''.padStart(12);
+    console.log(`  ${feat.name.padEnd(32)} ${String(feat.owners.length).padStart(3)} owners  ${unowned}  ${top || '–'}`);
+  }
+  console.log('');
+  const names = new Map(sorted.map(f => [f.id, f.name]));
+  if (codeowners.fragmented.length > 0) {
+    console.log(`  Owned by many teams (≥ ${MANY_OWNERS} owners): ${codeowners.fragmented.map(id => names.get(id) || id).join(', ')}`);
+  }
+  if (codeowners.unowned.length > 0) {
+    console.log(`  With unowned files: ${codeowners.unowned.map(id => names.get(id) || id).join(', ')}`);
+  }
+  if (codeowners.fragmented.length > 0 || codeowners.unowned.length > 0) console.log('');
+  if (hasChurn && codeowners.unownedHotFiles.length > 0) {
+    console.log('  Hottest files with no owner:');
+    for (const f of codeowners.unownedHotFiles) {
       console.log(`  ${f.churn.toLocaleString().padStart(7)} churn  ${String(f.commits).padStart(3)} commits  [${f.feature.padEnd(24)}]  ${f.path}`);
     }
     console.log('');
   }
 }
 
-main();
+function printSize(sized: SizedSymbol[], megaFiles: FileMetrics[], riskiest: FileMetrics[]) {
+  if (sized.length > 0) {
+    console.log('  ── LARGEST SYMBOLS ─────────────────────────────────────────────────────────────────');
+    console.log('');
+    for (const s of sized) {
+      const qualified = s.scope ? `${s.scope}.${s.name}` : s.name;
+      const detail = (s.methods !== undefined ? `${String(s.methods).padStart(3)} methods` : `${String(s.complexity ?? '–').padStart(3)} complexity`).padEnd(14);
+      const risk = s.risk !== undefined ? `  ${s.risk.toLocaleString().padStart(7)} risk` : '';
+      console.log(`  ${String(s.lines).padStart(5)} lines  ${detail}${risk}  [${s.feature.padEnd(24)}]  ${qualified}  ${s.file}:${s.line}`);
+    }
+    console.log('');
+  }
+
+  console.log(`  ── MEGA-FILES (≥ ${MEGA_FILE_LINES.toLocaleString()} lines or ≥ ${MEGA_FILE_SYMBOLS} symbols) ──────────────────────────────────────`);
+  console.log('');
+  for (const f of megaFiles) {
+    console.log(`  ${f.lines.toLocaleString().padStart(7)} lines  ${String(f.symbols).padStart(4)} sym  [${f.feature.padEnd(24)}]  ${f.path}`);
+  }
+  if (megaFiles.length === 0) console.log('    (none)');
+  console.log('');
+
+  if (riskiest.length > 0) {
+    console.log('  ── RISKIEST FILES (lines × commits) ────────────────────────────────────────────────');
+    console.log('');
+    for (const f of riskiest) {
+      console.log(`  ${f.risk!.toLocaleString().padStart(9)} risk  ${f.lines.toLocaleString().padStart(6)} lines  ${String(f.commits).padStart(3)} commits  [${f.feature.padEnd(24)}]  ${f.path}`);
+    }
+    console.log('');
+  }
+}
+
+function printLanguages(languages: LanguageReport[]) {
+  console.log('  ── LANGUAGES ───────────────────────────────────────────────────────────────────────');
+  console.log('');
+  for (const lang of languages) {
+    const parts = [
+      `${String(lang.total).padStart(5)} sym`,
+      `${String(lang.functions).padStart(4)}f`,
+      `${String(lang.methods).padStart(5)}m`,
+      `${String(lang.classes).padStart(4)}c`,
+      `${String(lang.files).padStart(5)} files`,
+    ];
+    console.log(`  ${lang.language.padEnd(14)} ${parts.join('  ')}`);
+  }
+  console.log('');
+}
+
+// Version from package.json, which sits one level above both src/ and dist/
+function toolVersion(): string {
+  try {
+    return JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'package.json'), 'utf-8')).version;
+  } catch {
+    return 'unknown';
+  }
+}
+
+async function runInit(args: string[]) {
+  const positional: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--force' || args[i] === '--no-cache') continue;
+    if (args[i].startsWith('--')) i++;
+    else positional.push(args[i]);
+  }
+  const repoRoot = positional[0];
+  const outputIdx = args.indexOf('--output');
+  const output = outputIdx >= 0 ? args[outputIdx + 1] : 'features.json';
+  const force = args.includes('--force');
+  const extractorIdx = args.indexOf('--extractor');
+  const extractor = extractorIdx >= 0 ? args[extractorIdx + 1] : 'auto';
+  const minIdx = args.indexOf('--min-symbols');
+  const minSymbols = minIdx >= 0 ? parseInt(args[minIdx + 1]) || undefined : undefined;
+  const cacheDirIdx = args.indexOf('--cache-dir');
+  const cacheDir = args.includes('--no-cache') ? null : cacheDirIdx >= 0 ? args[cacheDirIdx + 1] : defaultCacheDir();
+  const excludes: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--exclude' && args[i + 1]) {
+      excludes.push(args[++i]);
+    }
+  }
+
+  if (!repoRoot) {
+    console.error('Usage: repo-feature-check init <repo-path> [--output features.json|features.yaml] [--force] [--min-symbols <n>]');
+    process.exit(1);
+  }
+  if (!EXTRACTORS.includes(extractor as Extractor)) {
+    console.error(`Error: unknown --extractor "${extractor}" (expected auto, ctags or ts)`);
+    process.exit(1);
+  }
+  if (fs.existsSync(output) && !force) {
+    console.error(`Error: ${output} already exists (use --force to overwrite)`);
+    process.exit(1);
+  }
+
+  const absRoot = path.resolve(repoRoot);
+  const symbols = await extractSymbols({
+    root: absRoot, extractor: extractor as Extractor, excludes, cacheDir,
+    log: console.error, onWarning: w => console.error(`Warning: ${w}`),
+  });
+  const { config, coverage, excluded } = proposeConfig(symbols, absRoot, { minSymbols });
+  if (excluded.length > 0) {
+    console.error('Proposed excludePaths (generated or vendored code):');
+    for (const e of excluded) {
+      console.error(`  ${e.pattern.padEnd(28)} ${String(e.symbols).padStart(6)} sym  ${e.reason}`);
+    }
+  }
+
+  fs.writeFileSync(output, /\.ya?ml$/i.test(output) ? YAML.stringify(config) : JSON.stringify(config, null, 2) + '\n');
+  console.error(`Drafted ${config.features.length} features covering an estimated ${coverage}% of symbols`);
+  console.error(`Written to ${output}. Review it, then run: repo-feature-check ${repoRoot} --config ${output}`);
+}
+
+function runDiff(args: string[]) {
+  const files: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith('--')) i++;
+    else files.push(args[i]);
+  }
+  const formatIdx = args.indexOf('--format');
+  const format = formatIdx >= 0 ? args[formatIdx + 1] : 'text';
+  const reportIdx = args.indexOf('--report');
+  const reportOut = reportIdx >= 0 ? args[reportIdx + 1] : null;
+  const limitIdx = args.indexOf('--limit');
+  const limit = limitIdx >= 0 ? parseInt(args[limitIdx + 1]) || 50 : 50;
+
+  if (files.length !== 2) {
+    console.error('Usage: repo-feature-check diff <before.json> <after.json> [--format text|markdown] [--report <path>]');
+    process.exit(1);
+  }
+  if (format !== 'text' && format !== 'markdown') {
+    console.error(`Error: unknown --format "${format}" (expected text or markdown)`);
+    process.exit(1);
+  }
+
+  let diff;
+  try {
+    diff = diffSnapshots(loadSnapshot(files[0]), loadSnapshot(files[1]), { before: files[0], after: files[1] });
+  } catch (err) {
+    console.error(`Error: ${(err as Error).message}`);
+    process.exit(1);
+  }
+
+  if (reportOut) {
+    fs.writeFileSync(reportOut, renderDiffMarkdown(diff, limit));
+    console.error(`Report written to ${reportOut}`);
+  }
+  console.log(format === 'markdown' ? renderDiffMarkdown(diff, limit) : renderDiffText(diff, limit));
+}
+
+function printOverlaps(overlaps: RuleOverlap[], print: (line: string) => void) {
+  print('  ── OVERLAPPING RULES ──────────────────────────────────────────────────────────────');
+  print('');
+  if (overlaps.length === 0) {
+    print('  No symbol is matched by more than one feature.');
+    print('');
+    return;
+  }
+  for (const o of overlaps) {
+    print(`  ${String(o.count).padStart(5)} sym  ${o.features.join(' + ')}  → ${o.winner}`);
+    for (const ex of o.examples) {
+      print(`           ${ex.file}:${ex.line}  ${ex.name}  (${ex.patterns.join(', ')})`);
+    }
+  }
+  print('');
+}
+
+main().catch(err => {
+  console.error(`Error: ${(err as Error).message}`);
+  process.exit(1);
+});
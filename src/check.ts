@@ -0,0 +1,175 @@
+// ─── Threshold checks (--check) ─────────────────────────────────────────────
+//
+// Evaluates the config's `thresholds` (and per-feature overrides on each
+// FeatureRule) against a finished census, and renders the outcome as JUnit
+// XML or SARIF for CI. Every evaluated limit becomes one check; per-file
+// limits produce one check per offending file, or a single passing check
+// when no file exceeds the limit.
+
+import type { FeatureConfig, FeatureReport, Symbol, Thresholds } from './types';
+
+export interface Check {
+  rule: keyof Thresholds | 'maxSymbols';
+  target: string;          // "repo", a feature id, or a file path
+  limit: number;
+  actual: number | null;   // null when skipped
+  passed: boolean;
+  skipped?: string;        // reason, e.g. no churn data
+  message: string;
+  file?: string;           // for per-file checks
+}
+
+export interface CheckResult {
+  checks: Check[];
+  violations: Check[];
+}
+
+export interface CheckInput {
+  features: FeatureReport[];
+  symbols: Symbol[];
+  uncategorizedPct: number;
+  hasChurn: boolean;
+}
+
+/** Evaluates every configured threshold against the reported features and symbols. */
+export function evaluateThresholds(config: FeatureConfig, input: CheckInput): CheckResult {
+  const global = config.thresholds || {};
+  const rules = new Map(config.features.map(f => [f.id, f]));
+  const checks: Check[] = [];
+  const add = (check: Omit<Check, 'passed'>) => checks.push({ ...check, passed: check.actual === null || check.actual <= check.limit });
+
+  if (global.maxUncategorizedPct !== undefined) {
+    add({
+      rule: 'maxUncategorizedPct', target: 'repo', limit: global.maxUncategorizedPct, actual: input.uncategorizedPct,
+      message: `${input.uncategorizedPct}% of symbols are uncategorized (limit ${global.maxUncategorizedPct}%)`,
+    });
+  }
+  if (global.maxUncategorizedSymbols !== undefined) {
+    const count = input.features.find(f => f.id === 'uncategorized')?.total || 0;
+    add({
+      rule: 'maxUncategorizedSymbols', target: 'repo', limit: global.maxUncategorizedSymbols, actual: count,
+      message: `${count} symbols are uncategorized (limit ${global.maxUncategorizedSymbols})`,
+    });
+  }
+
+  for (const feat of input.features) {
+    if (feat.id === 'uncategorized') continue;
+    const own = rules.get(feat.id)?.thresholds || {};
+    const maxSymbols = own.maxSymbols ?? global.maxSymbolsPerFeature;
+    if (maxSymbols !== undefined) {
+      add({
+        rule: own.maxSymbols !== undefined ? 'maxSymbols' : 'maxSymbolsPerFeature', target: feat.id, limit: maxSymbols, actual: feat.total,
+        message: `${feat.name} has ${feat.total} symbols (limit ${maxSymbols})`,
+      });
+    }
+    const maxHotspot = own.maxHotspotScore ?? global.maxHotspotScore;
+    if (maxHotspot !== undefined) {
+      add({
+        rule: 'maxHotspotScore', target: feat.id, limit: maxHotspot,
+        actual: input.hasChurn ? feat.hotspotScore || 0 : null,
+        ...(input.hasChurn ? {} : { skipped: 'needs a churn window (--since, --until or --rev-range)' }),
+        message: `${feat.name} has hotspot score ${feat.hotspotScore || 0} (limit ${maxHotspot})`,
+      });
+    }
+  }
+
+  // Per-file limit: the feature of the file's symbols may override it
+  const perFile = new Map<string, { count: number; feature: string }>();
+  for (const sym of input.symbols) {
+    const entry = perFile.get(sym.file) || { count: 0, feature: sym.feature };
+    entry.count++;
+    perFile.set(sym.file, entry);
+  }
+  const fileLimitFor = (feature: string) => rules.get(feature)?.thresholds?.maxSymbolsPerFile ?? global.maxSymbolsPerFile;
+  const hasFileLimit = global.maxSymbolsPerFile !== undefined || config.features.some(f => f.thresholds?.maxSymbolsPerFile !== undefined);
+  if (hasFileLimit) {
+    let offenders = 0;
+    let largest: { file: string; count: number; limit: number } | null = null;
+    for (const [file, { count, feature }] of [...perFile].sort((a, b) => b[1].count - a[1].count)) {
+      const limit = fileLimitFor(feature);
+      if (limit === undefined) continue;
+      if (!largest) largest = { file, count, limit };
+      if (count <= limit) continue;
+      offenders++;
+      add({ rule: 'maxSymbolsPerFile', target: file, file, limit, actual: count, message: `${file} has ${count} symbols (limit ${limit})` });
+    }
+    // Passing files are summarized as one check: the largest limited file against its limit
+    if (offenders === 0) {
+      const limit = largest?.limit ?? global.maxSymbolsPerFile ?? Math.min(...config.features.map(f => f.thresholds?.maxSymbolsPerFile ?? Infinity));
+      add({
+        rule: 'maxSymbolsPerFile', target: 'all files', limit, actual: largest?.count ?? 0,
+        message: largest ? `no file exceeds its symbol limit (largest: ${largest.file} with ${largest.count}, limit ${limit})` : 'no file exceeds its symbol limit',
+      });
+    }
+  }
+
+  return { checks, violations: checks.filter(c => !c.passed) };
+}
+
+function xmlEscape(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/** One <testcase> per check, grouped in one <testsuite>. */
+export function renderJUnit(result: CheckResult, suiteName: string): string {
+  const skipped = result.checks.filter(c => c.skipped).length;
+  const lines: string[] = [];
+  lines.push('<?xml version="1.0" encoding="UTF-8"?>');
+  lines.push(`<testsuites name="${xmlEscape(suiteName)}" tests="${result.checks.length}" failures="${result.violations.length}" skipped="${skipped}">`);
+  lines.push(`  <testsuite name="${xmlEscape(suiteName)}" tests="${result.checks.length}" failures="${result.violations.length}" skipped="${skipped}">`);
+  for (const c of result.checks) {
+    const attrs = `classname="${xmlEscape(c.rule)}" name="${xmlEscape(c.target)}"`;
+    if (c.skipped) {
+      lines.push(`    <testcase ${attrs}><skipped message="${xmlEscape(c.skipped)}"/></testcase>`);
+    } else if (!c.passed) {
+      lines.push(`    <testcase ${attrs}><failure message="${xmlEscape(c.message)}" type="${xmlEscape(c.rule)}"/></testcase>`);
+    } else {
+      lines.push(`    <testcase ${attrs}/>`);
+    }
+  }
+  lines.push('  </testsuite>');
+  lines.push('</testsuites>');
+  return lines.join('\n') + '\n';
+}
+
+const RULE_HELP: Record<Check['rule'], string> = {
+  maxUncategorizedPct: 'Share of symbols not matched by any feature rule',
+  maxUncategorizedSymbols: 'Number of symbols not matched by any feature rule',
+  maxSymbolsPerFeature: 'Symbols in one feature',
+  maxSymbols: 'Symbols in this feature (per-feature override)',
+  maxSymbolsPerFile: 'Symbols defined in one file',
+  maxHotspotScore: 'Feature hotspot score (churn × √commits)',
+};
+
+/**
+ * SARIF 2.1.0 log with one result per violation. Per-file violations point at
+ * the file; repo- and feature-level ones point at the config file.
+ */
+export function renderSarif(result: CheckResult, configFile: string | null, version: string): string {
+  const ruleIds = [...new Set(result.checks.map(c => c.rule))];
+  const log = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'repo-feature-check',
+          version,
+          rules: ruleIds.map(id => ({ id, shortDescription: { text: RULE_HELP[id] } })),
+        },
+      },
+      results: result.violations.map(v => {
+        const uri = v.file || configFile;
+        return {
+          ruleId: v.rule,
+          ruleIndex: ruleIds.indexOf(v.rule),
+          level: 'error',
+          message: { text: v.message },
+          ...(uri ? { locations: [{ physicalLocation: { artifactLocation: { uri }, region: { startLine: 1 } } }] } : {}),
+          properties: { target: v.target, limit: v.limit, actual: v.actual },
+        };
+      }),
+    }],
+  };
+  return JSON.stringify(log, null, 2) + '\n';
+}
@@ -0,0 +1,332 @@
+// ─── Git churn ──────────────────────────────────────────────────────────────
+//
+// Both collectors call git directly (no shell) and parse its output here.
+// History is read newest-first, and renames seen along the way are replayed
+// so that churn on a file's earlier paths lands on its current path.
+//
+// Symbol-level churn walks `git log -p -U0` from newest to oldest commit. For each file it keeps
+// a mapping from "line number as of the commit being read" to "line number at
+// HEAD", composed from the hunk headers of every newer commit. Each hunk is
+// mapped through it to HEAD coordinates, then its churn is spread over the
+// lines it covers and credited to the innermost symbol owning each line.
+// Lines that were later deleted collapse onto the position of that deletion.
+
+import fs from 'fs';
+import path from 'path';
+import { spawnSync } from 'child_process';
+import type { FileChurn, Symbol } from './types';
+
+export interface ChurnWindow {
+  since?: string | null;
+  until?: string | null;
+  revRange?: string | null;   // e.g. "v1.2.0..v1.3.0"
+}
+
+export function hasChurnWindow(w: ChurnWindow): boolean {
+  return !!(w.since || w.until || w.revRange);
+}
+
+/** Human-readable window, e.g. "v1.2.0..HEAD, since 2024-01-01". */
+export function describeChurnWindow(w: ChurnWindow): string {
+  const parts: string[] = [];
+  if (w.revRange) parts.push(w.revRange);
+  if (w.since) parts.push(`since ${w.since}`);
+  if (w.until) parts.push(`until ${w.until}`);
+  return parts.join(', ');
+}
+
+function windowArgs(w: ChurnWindow): string[] {
+  const args: string[] = [];
+  if (w.since) args.push(`--since=${w.since}`);
+  if (w.until) args.push(`--until=${w.until}`);
+  if (w.revRange) {
+    if (w.revRange.startsWith('-')) throw new Error(`Invalid revision range "${w.revRange}"`);
+    args.push(w.revRange);
+  }
+  args.push('--');
+  return args;
+}
+
+function runGitLog(repoRoot: string, args: string[], config: string[] = []): string {
+  const configArgs = config.flatMap(c => ['-c', c]);
+  const result = spawnSync('git', ['-C', repoRoot, '-c', 'core.quotePath=false', ...configArgs, 'log', ...args], {
+    encoding: 'utf-8',
+    maxBuffer: 1024 * 1024 * 1024,
+  });
+  if (result.error) throw new Error(`git log failed: ${result.error.message}`);
+  if (result.status !== 0) throw new Error(`git log failed: ${(result.stderr || '').trim()}`);
+  return result.stdout || '';
+}
+
+/**
+ * Maps historical paths to current ones. Feed it renames newest-first: once
+ * `from → to` is seen, older history on `from` belongs to wherever `to` ends up.
+ */
+function createRenameMap() {
+  const current = new Map<string, string>();
+  const resolve = (p: string) => current.get(p) ?? p;
+  return {
+    resolve,
+    rename(from: string, to: string) {
+      current.set(from, resolve(to));
+    },
+  };
+}
+
+export interface CommitChange {
+  path: string;          // current path, after replaying later renames
+  additions: number;
+  deletions: number;
+}
+
+export interface CommitRecord {
+  hash: string;
+  author: string;        // after .mailmap
+  email: string;
+  timestamp: number;     // author date, unix seconds
+  files: CommitChange[];
+}
+
+export interface HistoryOptions {
+  mailmap?: string | null;   // extra mailmap file, on top of the repo's .mailmap
+}
+
+/** Every non-merge commit in the window with its per-file line counts, newest first. */
+export function getCommitHistory(repoRoot: string, window: ChurnWindow, options: HistoryOptions = {}): CommitRecord[] {
+  const config = options.mailmap ? [`mailmap.file=${path.resolve(options.mailmap)}`] : [];
+  const output = runGitLog(repoRoot, ['-M', '--numstat', '-z', '--format=%x01%H%x02%aN%x02%aE%x02%at', ...windowArgs(window)], config);
+
+  const renames = createRenameMap();
+  const commits: CommitRecord[] = [];
+  let commit: CommitRecord | null = null;
+
+  // -z output: "\x01<hash>\x02<author>..." tokens, then "adds\tdels\tpath" tokens, where a
+  // rename has an empty path followed by two more tokens: old and new path
+  const tokens = output.split('\0');
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i].replace(/^\n/, '');
+    if (!token) continue;
+    if (token.startsWith('\x01')) {
+      const [hash, author, email, timestamp] = token.slice(1).split('\x02');
+      commit = { hash, author, email, timestamp: parseInt(timestamp) || 0, files: [] };
+      commits.push(commit);
+      continue;
+    }
+    const m = token.match(/^(\d+|-)\t(\d+|-)\t(.*)$/s);
+    if (!m || !commit) continue;
+    let filePath = m[3];
+    if (!filePath) {
+      const from = tokens[++i];
+      const to = tokens[++i];
+      if (from === undefined || to === undefined) break;
+      filePath = renames.resolve(to);
+      renames.rename(from, to);
+    } else {
+      filePath = renames.resolve(filePath);
+    }
+    commit.files.push({
+      path: filePath,
+      additions: m[1] === '-' ? 0 : parseInt(m[1]),
+      deletions: m[2] === '-' ? 0 : parseInt(m[2]),
+    });
+  }
+  return commits;
+}
+
+/** Commits and lines added/deleted per file (by current path). */
+export function summarizeChurn(history: CommitRecord[], excludePatterns: string[]): FileChurn[] {
+  const files = new Map<string, FileChurn>();
+  for (const commit of history) {
+    const touched = new Set<string>();
+    for (const change of commit.files) {
+      let entry = files.get(change.path);
+      if (!entry) {
+        entry = { path: change.path, commits: 0, additions: 0, deletions: 0, churn: 0 };
+        files.set(change.path, entry);
+      }
+      entry.additions += change.additions;
+      entry.deletions += change.deletions;
+      entry.churn += change.additions + change.deletions;
+      if (!touched.has(change.path)) {
+        touched.add(change.path);
+        entry.commits++;
+      }
+    }
+  }
+
+  return [...files.values()]
+    .filter(f => !excludePatterns.some(ex => f.path.includes(ex)))
+    .sort((a, b) => b.churn - a.churn);
+}
+
+/** Commits and lines added/deleted per file (by current path) in the window. */
+export function getGitChurn(repoRoot: string, window: ChurnWindow, excludePatterns: string[]): FileChurn[] {
+  return summarizeChurn(getCommitHistory(repoRoot, window), excludePatterns);
+}
+
+interface Hunk {
+  oldStart: number;
+  oldCount: number;
+  newStart: number;
+  newCount: number;
+}
+
+type LineMap = (line: number) => number;
+
+const HUNK_RE = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Line transform for one commit's hunks: pre-image line → post-image line.
+ * With -U0 a count of 0 means "after line N", so the change point is N + 1.
+ */
+function preToPost(hunks: Hunk[]): LineMap {
+  return (line: number) => {
+    let shift = 0;
+    for (const h of hunks) {
+      const oldFirst = h.oldCount === 0 ? h.oldStart + 1 : h.oldStart;
+      if (line < oldFirst) break;
+      if (line < oldFirst + h.oldCount) {
+        return Math.max(1, h.newCount === 0 ? h.newStart + 1 : h.newStart);
+      }
+      shift += h.newCount - h.oldCount;
+    }
+    return line + shift;
+  };
+}
+
+// Innermost-symbol owner of every line in a file, as indices into `symbols`
+function buildOwnership(symbols: Symbol[], repoRoot: string, file: string): Int32Array {
+  const sorted = symbols.map((sym, idx) => ({ sym, idx })).sort((a, b) => a.sym.line - b.sym.line);
+  const ranges = sorted.map(({ sym, idx }, i) => {
+    if (sym.endLine) return { idx, start: sym.line, end: sym.endLine };
+    // No end line from the extractor: run up to the next symbol, or EOF
+    return { idx, start: sym.line, end: sorted[i + 1] ? Math.max(sym.line, sorted[i + 1].sym.line - 1) : -1 };
+  });
+  if (ranges.some(r => r.end < 0)) {
+    let lineCount = 0;
+    try {
+      lineCount = fs.readFileSync(path.join(repoRoot, file), 'utf-8').split('\n').length;
+    } catch {}
+    for (const r of ranges) if (r.end < 0) r.end = Math.max(r.start, lineCount);
+  }
+
+  const maxLine = ranges.reduce((m, r) => Math.max(m, r.end), 0);
+  const owner = new Int32Array(maxLine + 2).fill(-1);
+  // Widest first, so nested symbols overwrite their parents
+  ranges.sort((a, b) => (b.end - b.start) - (a.end - a.start));
+  for (const r of ranges) {
+    for (let l = r.start; l <= r.end; l++) owner[l] = r.idx;
+  }
+  return owner;
+}
+
+/**
+ * Sets `commits` and `churn` on every symbol touched in the window. Churn is
+ * lines added + deleted, credited to the innermost enclosing symbol only, so
+ * a class's figure covers its own lines but not those of its methods.
+ */
+export function attributeSymbolChurn(repoRoot: string, window: ChurnWindow, symbols: Symbol[], excludePatterns: string[]): void {
+  const byFile = new Map<string, Symbol[]>();
+  for (const sym of symbols) {
+    if (excludePatterns.some(ex => sym.file.includes(ex))) continue;
+    if (!byFile.has(sym.file)) byFile.set(sym.file, []);
+    byFile.get(sym.file)!.push(sym);
+  }
+  if (byFile.size === 0) return;
+
+  const output = runGitLog(repoRoot, ['-M', '-p', '-U0', '--no-color', '--no-ext-diff', '--format=%x00%H', ...windowArgs(window)]);
+
+  const lineMaps = new Map<string, LineMap>();
+  const ownership = new Map<string, Int32Array>();
+  const churn = new Map<Symbol, number>();
+  const commits = new Map<Symbol, number>();
+
+  const renames = createRenameMap();
+  let file: string | null = null;
+  let renameFrom: string | null = null;
+  let inHeader = false;   // between "diff --git" and the first hunk
+  let hunks: Hunk[] = [];
+  let touched = new Set<Symbol>();
+
+  const flushFile = () => {
+    if (file && hunks.length > 0) {
+      const fileSymbols = byFile.get(file)!;
+      let owner = ownership.get(file);
+      if (!owner) {
+        owner = buildOwnership(fileSymbols, repoRoot, file);
+        ownership.set(file, owner);
+      }
+      const toHead = lineMaps.get(file) || ((l: number) => l);
+
+      for (const h of hunks) {
+        const amount = h.oldCount + h.newCount;
+        const first = h.newCount === 0 ? Math.max(1, h.newStart) : h.newStart;
+        const last = h.newCount === 0 ? first : h.newStart + h.newCount - 1;
+        const start = toHead(first);
+        const end = Math.max(start, toHead(last));
+        const perLine = amount / (end - start + 1);
+        for (let l = start; l <= end && l < owner.length; l++) {
+          if (owner[l] < 0) continue;
+          const sym = fileSymbols[owner[l]];
+          churn.set(sym, (churn.get(sym) || 0) + perLine);
+          touched.add(sym);
+        }
+      }
+
+      // Older commits see this file as it was before these hunks
+      const step = preToPost([...hunks].sort((a, b) => a.oldStart - b.oldStart));
+      lineMaps.set(file, (l: number) => toHead(step(l)));
+    }
+    file = null;
+    hunks = [];
+  };
+
+  const flushCommit = () => {
+    flushFile();
+    for (const sym of touched) commits.set(sym, (commits.get(sym) || 0) + 1);
+    touched = new Set();
+  };
+
+  // git ends a "+++" path containing spaces with a tab
+  const headerPath = (line: string, prefix: string) => line.slice(prefix.length).replace(/\t$/, '');
+
+  for (const line of output.split('\n')) {
+    if (line.startsWith('\0')) {
+      flushCommit();
+    } else if (line.startsWith('diff --git ')) {
+      flushFile();
+      inHeader = true;
+      renameFrom = null;
+    } else if (inHeader && line.startsWith('rename from ')) {
+      renameFrom = headerPath(line, 'rename from ');
+    } else if (inHeader && line.startsWith('rename to ')) {
+      const to = headerPath(line, 'rename to ');
+      const current = renames.resolve(to);
+      if (renameFrom) renames.rename(renameFrom, to);
+      // A pure rename has no hunks, so "+++" never comes
+      file = byFile.has(current) ? current : null;
+    } else if (inHeader && line.startsWith('+++ ')) {
+      const target = headerPath(line, '+++ ');
+      const rel = target.startsWith('b/') ? renames.resolve(target.slice(2)) : null;
+      file = rel && byFile.has(rel) ? rel : null;
+    } else if (line.startsWith('@@')) {
+      inHeader = false;
+      if (!file) continue;
+      const m = line.match(HUNK_RE);
+      if (m) {
+        hunks.push({
+          oldStart: parseInt(m[1]),
+          oldCount: m[2] === undefined ? 1 : parseInt(m[2]),
+          newStart: parseInt(m[3]),
+          newCount: m[4] === undefined ? 1 : parseInt(m[4]),
+        });
+      }
+    }
+  }
+  flushCommit();
+
+  for (const [sym, value] of churn) {
+    sym.churn = Math.round(value);
+    sym.commits = commits.get(sym) || 0;
+  }
+}
@@ -0,0 +1,247 @@
+// ─── Feature classification ─────────────────────────────────────────────────
+//
+// Rule patterns come in three flavours:
+//   - plain substrings ("/payments/"), matched against "/" + the relative path
+//   - globs ("src/**/stripe/*.ts", "*.test.*", or an explicit "glob:" prefix),
+//     matched against the relative path — or its basename if the glob has no "/"
+//   - regexes ("re:^src/(billing|invoices)/"), matched against the relative path
+//
+// Symbol and scope patterns use the same syntax, but a plain string must equal
+// the whole name and "*" also matches "." and "/".
+
+import type { FeatureRule, MatchPolicy, Symbol } from './types';
+
+export interface Classification {
+  id: string;
+  name: string;
+  category: string;
+  subFeature?: string;   // only from assignments
+}
+
+export interface FeatureMatch extends Classification {
+  priority: number;
+  symbolLevel: boolean;  // matched on symbol name or scope, not just path
+  specificity: number;   // literal characters in the most specific matching pattern
+  pattern: string;       // the pattern that produced that specificity
+}
+
+export interface Classifier {
+  /** Every feature whose rule matches, best match first. */
+  matches(relPath: string, symbol?: Pick<Symbol, 'name' | 'scope'>): FeatureMatch[];
+  classify(relPath: string, symbol?: Pick<Symbol, 'name' | 'scope'>): Classification;
+}
+
+export const UNCATEGORIZED: Classification = { id: 'uncategorized', name: 'Uncategorized', category: 'Unknown' };
+
+interface CompiledPattern {
+  source: string;
+  specificity: number;
+  test(value: string): boolean;
+}
+
+interface CompiledRule {
+  rule: FeatureRule;
+  index: number;
+  paths: CompiledPattern[];
+  exclude: CompiledPattern[];
+  symbols: CompiledPattern[];
+  scopes: CompiledPattern[];
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Glob → RegExp. `pathAware` keeps "*" and "?" from crossing "/". */
+export function globToRegExp(glob: string, pathAware: boolean): RegExp {
+  const star = pathAware ? '[^/]*' : '.*';
+  const one = pathAware ? '[^/]' : '.';
+  let re = '';
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === '*' && glob[i + 1] === '*') {
+      i++;
+      if (glob[i + 1] === '/') {
+        i++;
+        re += '(?:.*/)?';
+      } else {
+        re += '.*';
+      }
+    } else if (c === '*') {
+      re += star;
+    } else if (c === '?') {
+      re += one;
+    } else if (c === '[' && glob.indexOf(']', i + 2) > i) {
+      const end = glob.indexOf(']', i + 2);
+      const body = glob.slice(i + 1, end).replace(/\\/g, '\\\\');
+      re += '[' + (body.startsWith('!') ? '^' + body.slice(1) : body) + ']';
+      i = end;
+    } else {
+      re += escapeRegExp(c);
+    }
+  }
+  return new RegExp('^' + re + '$');
+}
+
+function literalLength(s: string): number {
+  return s.replace(/\\.|[*?[\]{}()|^$+.\/]/g, '').length;
+}
+
+function compilePathPattern(pattern: string): CompiledPattern {
+  if (pattern.startsWith('re:')) {
+    const re = new RegExp(pattern.slice(3));
+    return { source: pattern, specificity: literalLength(pattern.slice(3)), test: rel => re.test(rel) };
+  }
+  if (pattern.startsWith('glob:') || /[*?]/.test(pattern)) {
+    const glob = pattern.replace(/^glob:/, '').replace(/^\//, '');
+    const re = globToRegExp(glob, true);
+    const basenameOnly = !glob.includes('/');
+    return {
+      source: pattern,
+      specificity: literalLength(glob),
+      test: rel => re.test(basenameOnly ? rel.slice(rel.lastIndexOf('/') + 1) : rel),
+    };
+  }
+  return { source: pattern, specificity: literalLength(pattern), test: rel => ('/' + rel).includes(pattern) };
+}
+
+function compileNamePattern(pattern: string): CompiledPattern {
+  if (pattern.startsWith('re:')) {
+    const re = new RegExp(pattern.slice(3));
+    return { source: pattern, specificity: literalLength(pattern.slice(3)), test: name => re.test(name) };
+  }
+  if (pattern.startsWith('glob:') || /[*?]/.test(pattern)) {
+    const glob = pattern.replace(/^glob:/, '');
+    const re = globToRegExp(glob, false);
+    return { source: pattern, specificity: literalLength(glob), test: name => re.test(name) };
+  }
+  return { source: pattern, specificity: pattern.length, test: name => name === pattern };
+}
+
+function compileRule(rule: FeatureRule, index: number): CompiledRule {
+  return {
+    rule,
+    index,
+    paths: (rule.paths || []).map(compilePathPattern),
+    exclude: (rule.exclude || []).map(compilePathPattern),
+    symbols: (rule.symbols || []).map(compileNamePattern),
+    scopes: (rule.scopes || []).map(compileNamePattern),
+  };
+}
+
+// The most specific pattern in `patterns` that accepts `value`, if any
+function bestMatch(patterns: CompiledPattern[], value: string): CompiledPattern | undefined {
+  let best: CompiledPattern | undefined;
+  for (const p of patterns) {
+    if (p.test(value) && (!best || p.specificity > best.specificity)) best = p;
+  }
+  return best;
+}
+
+function matchRule(
+  compiled: CompiledRule,
+  relPath: string,
+  symbol?: Pick<Symbol, 'name' | 'scope'>,
+): FeatureMatch | null {
+  const { rule } = compiled;
+  const hasSymbolCriteria = compiled.symbols.length > 0 || compiled.scopes.length > 0;
+  if (!hasSymbolCriteria && compiled.paths.length === 0) return null;
+  // Symbol-level rules can't match file-level lookups (e.g. churn)
+  if (hasSymbolCriteria && !symbol) return null;
+
+  const hits: CompiledPattern[] = [];
+  if (compiled.paths.length > 0) {
+    const hit = bestMatch(compiled.paths, relPath);
+    if (!hit) return null;
+    hits.push(hit);
+  }
+  if (compiled.symbols.length > 0) {
+    const hit = bestMatch(compiled.symbols, symbol!.name);
+    if (!hit) return null;
+    hits.push(hit);
+  }
+  if (compiled.scopes.length > 0) {
+    const hit = symbol!.scope ? bestMatch(compiled.scopes, symbol!.scope) : undefined;
+    if (!hit) return null;
+    hits.push(hit);
+  }
+  if (compiled.exclude.some(p => p.test(relPath))) return null;
+
+  const top = hits.reduce((a, b) => (b.specificity > a.specificity ? b : a));
+  return {
+    id: rule.id,
+    name: rule.name,
+    category: rule.category,
+    priority: rule.priority || 0,
+    symbolLevel: hasSymbolCriteria,
+    specificity: hits.reduce((s, h) => s + h.specificity, 0),
+    pattern: top.source,
+  };
+}
+
+/**
+ * Builds a classifier for a feature list. Higher `priority` always wins. Among
+ * equal priorities, the "first" policy keeps config order; "most-specific"
+ * prefers symbol-level rules over path-only rules, then the match with the most
+ * literal characters, then config order.
+ */
+export function createClassifier(features: FeatureRule[], policy: MatchPolicy = 'first'): Classifier {
+  const rules = features.map(compileRule);
+
+  function matches(relPath: string, symbol?: Pick<Symbol, 'name' | 'scope'>): FeatureMatch[] {
+    const normalized = relPath.replace(/\\/g, '/');
+    const found: { match: FeatureMatch; index: number }[] = [];
+    for (const compiled of rules) {
+      const match = matchRule(compiled, normalized, symbol);
+      if (match) found.push({ match, index: compiled.index });
+    }
+    found.sort((a, b) => {
+      if (a.match.priority !== b.match.priority) return b.match.priority - a.match.priority;
+      if (policy === 'most-specific') {
+        if (a.match.symbolLevel !== b.match.symbolLevel) return a.match.symbolLevel ? -1 : 1;
+        if (a.match.specificity !== b.match.specificity) return b.match.specificity - a.match.specificity;
+      }
+      return a.index - b.index;
+    });
+    return found.map(f => f.match);
+  }
+
+  function classify(relPath: string, symbol?: Pick<Symbol, 'name' | 'scope'>): Classification {
+    const [best] = matches(relPath, symbol);
+    return best ? { id: best.id, name: best.name, category: best.category } : UNCATEGORIZED;
+  }
+
+  return { matches, classify };
+}
+
+// ─── Overlap explanation (--explain) ────────────────────────────────────────
+
+export interface RuleOverlap {
+  features: string[];    // ids of every matching feature, winner first
+  winner: string;
+  count: number;
+  examples: { file: string; name: string; line: number; patterns: string[] }[];
+}
+
+/** Groups symbols matched by more than one feature by the set of features involved. */
+export function findOverlaps(symbols: Symbol[], classifier: Classifier, maxExamples = 5): RuleOverlap[] {
+  const groups = new Map<string, RuleOverlap>();
+  for (const sym of symbols) {
+    const seen = new Set<string>();
+    const distinct = classifier.matches(sym.file, sym).filter(m => !seen.has(m.id) && seen.add(m.id));
+    if (distinct.length < 2) continue;
+
+    const ids = distinct.map(m => m.id);
+    const key = [...ids].sort().join('\0') + '\0' + ids[0];
+    let group = groups.get(key);
+    if (!group) {
+      group = { features: ids, winner: ids[0], count: 0, examples: [] };
+      groups.set(key, group);
+    }
+    group.count++;
+    if (group.examples.length < maxExamples) {
+      group.examples.push({ file: sym.file, name: sym.name, line: sym.line, patterns: distinct.map(m => `${m.id}: ${m.pattern}`) });
+    }
+  }
+  return [...groups.values()].sort((a, b) => b.count - a.count);
+}
@@ -0,0 +1,195 @@
+// ─── CODEOWNERS ─────────────────────────────────────────────────────────────
+//
+// Reads a GitHub or GitLab CODEOWNERS file, the first of .github/CODEOWNERS,
+// .gitlab/CODEOWNERS, CODEOWNERS and docs/CODEOWNERS at the top of the git
+// repository. A repo that is a sub-directory of its git repository is matched
+// with its prefix, as the file's patterns are relative to the top.
+//
+// Patterns follow gitignore rules as both hosts document them: a leading or
+// inner "/" anchors a pattern at the top, a trailing "/" matches everything
+// below a directory, a plain name matches at any depth, and a wildcard in the
+// last segment doesn't reach into sub-directories ("docs/*"). The last
+// matching line wins; a matching line without owners leaves the file unowned.
+// GitLab sections ("[Frontend] @web-team", "^[Docs][2]") are matched
+// independently and their owners combined; a line without owners in a section
+// takes the section's default owners.
+
+import fs from 'fs';
+import path from 'path';
+import { globToRegExp } from './classify';
+import type { FeatureReport, FileChurn, HotFile, OwnerShare, OwnershipSummary, Symbol } from './types';
+
+// A feature whose files have at least this many owners is fragmented
+export const MANY_OWNERS = 3;
+
+const LOCATIONS = ['.github/CODEOWNERS', '.gitlab/CODEOWNERS', 'CODEOWNERS', 'docs/CODEOWNERS'];
+
+export interface CodeownersRule {
+  pattern: string;
+  owners: string[];      // empty: explicitly unowned (GitHub), or the section defaults (GitLab)
+  section: string;       // "" outside GitLab sections
+  line: number;
+}
+
+export interface Codeowners {
+  file: string;          // as found or given
+  prefix: string;        // the repo's path below the file's top directory, "" or ending in "/"
+  rules: CodeownersRule[];
+  /** Owners of a path relative to the repo root; empty when unowned. */
+  ownersOf(relPath: string): string[];
+}
+
+// Splits on whitespace that isn't escaped ("docs/My\ File.md")
+function splitFields(line: string): string[] {
+  return (line.match(/(?:\\.|[^\s\\])+/g) || []).map(f => f.replace(/\\(.)/g, '$1'));
+}
+
+export function parseCodeowners(text: string): CodeownersRule[] {
+  const rules: CodeownersRule[] = [];
+  const defaults = new Map<string, string[]>();
+  let section = '';
+  for (const [i, raw] of text.split(/\r?\n/).entries()) {
+    // Comments: whole lines, and anything after an unescaped " #"
+    const line = raw.replace(/(^|\s)#.*$/, '').trim();
+    if (!line) continue;
+    const header = line.match(/^\^?\[([^\]]+)\](?:\[\d+\])?\s*(.*)$/);
+    if (header) {
+      section = header[1].trim();
+      defaults.set(section, splitFields(header[2]));
+      continue;
+    }
+    const [pattern, ...owners] = splitFields(line);
+    rules.push({ pattern, owners: owners.length > 0 ? owners : defaults.get(section) || [], section, line: i + 1 });
+  }
+  return rules;
+}
+
+function compilePattern(pattern: string): RegExp {
+  const dirOnly = pattern.endsWith('/');
+  let glob = dirOnly ? pattern.slice(0, -1) : pattern;
+  const anchored = glob.startsWith('/') || glob.includes('/');
+  glob = glob.replace(/^\//, '');
+  const body = globToRegExp(glob, true).source.slice(1, -1);
+  const last = glob.slice(glob.lastIndexOf('/') + 1);
+  const below = dirOnly ? '/.*' : /[*?]/.test(last) && last !== '**' ? '' : '(?:/.*)?';
+  return new RegExp(`^${anchored ? '' : '(?:.*/)?'}${body}${below}$`);
+}
+
+/** Builds a resolver from parsed rules; `prefix` is prepended to every path. */
+export function createCodeowners(file: string, rules: CodeownersRule[], prefix = ''): Codeowners {
+  const compiled = rules.map(rule => ({ rule, re: compilePattern(rule.pattern) }));
+  const sections = [...new Set(rules.map(r => r.section))];
+  const cache = new Map<string, string[]>();
+  return {
+    file,
+    prefix,
+    rules,
+    ownersOf(relPath) {
+      let owners = cache.get(relPath);
+      if (owners) return owners;
+      const target = prefix + relPath;
+      const found = new Set<string>();
+      for (const section of sections) {
+        // Last match in each section wins
+        for (let i = compiled.length - 1; i >= 0; i--) {
+          const { rule, re } = compiled[i];
+          if (rule.section !== section || !re.test(target)) continue;
+          for (const owner of rule.owners) found.add(owner);
+          break;
+        }
+      }
+      owners = [...found];
+      cache.set(relPath, owners);
+      return owners;
+    },
+  };
+}
+
+/**
+ * Loads `file`, or looks for a CODEOWNERS file from `repoRoot` up to the top
+ * of its git repository. Null when none is found.
+ */
+export function loadCodeowners(repoRoot: string, file?: string | null): Codeowners | null {
+  if (file) {
+    return createCodeowners(file, parseCodeowners(fs.readFileSync(file, 'utf-8')));
+  }
+  for (let dir = path.resolve(repoRoot); ; dir = path.dirname(dir)) {
+    for (const location of LOCATIONS) {
+      const candidate = path.join(dir, location);
+      if (!fs.existsSync(candidate)) continue;
+      const prefix = path.relative(dir, repoRoot).split(path.sep).join('/');
+      return createCodeowners(path.relative(repoRoot, candidate) || location, parseCodeowners(fs.readFileSync(candidate, 'utf-8')), prefix ? `${prefix}/` : '');
+    }
+    if (fs.existsSync(path.join(dir, '.git')) || path.dirname(dir) === dir) return null;
+  }
+}
+
+/**
+ * Sets `owners` on each symbol, rolls owners up per feature (files and
+ * symbols per owner, unowned files) and summarizes the fragmented features,
+ * the features with unowned files and, with churn, the hottest unowned files.
+ */
+export function applyOwnership(
+  codeowners: Codeowners,
+  features: Map<string, FeatureReport>,
+  symbols: Symbol[],
+  churn: FileChurn[],
+  featureOf: (relPath: string) => string,
+): OwnershipSummary {
+  const byFeature = new Map<string, Map<string, number>>();   // feature → file → symbols
+  for (const sym of symbols) {
+    const owners = codeowners.ownersOf(sym.file);
+    if (owners.length > 0) sym.owners = owners;
+    if (!byFeature.has(sym.feature)) byFeature.set(sym.feature, new Map());
+    const files = byFeature.get(sym.feature)!;
+    files.set(sym.file, (files.get(sym.file) || 0) + 1);
+  }
+
+  const allFiles = new Set(symbols.map(s => s.file));
+  const allOwners = new Set<string>();
+  for (const file of allFiles) for (const owner of codeowners.ownersOf(file)) allOwners.add(owner);
+
+  for (const [id, files] of byFeature) {
+    const report = features.get(id);
+    if (!report) continue;
+    const shares = new Map<string, { files: number; symbols: number }>();
+    let unownedFiles = 0;
+    for (const [file, count] of files) {
+      const owners = codeowners.ownersOf(file);
+      if (owners.length === 0) unownedFiles++;
+      for (const owner of owners) {
+        const share = shares.get(owner) || { files: 0, symbols: 0 };
+        share.files++;
+        share.symbols += count;
+        shares.set(owner, share);
+      }
+    }
+    const owners: OwnerShare[] = [...shares.entries()]
+      .map(([owner, s]) => ({ owner, files: s.files, symbols: s.symbols, share: Math.round((s.symbols / report.total) * 1000) / 1000 }))
+      .sort((a, b) => b.symbols - a.symbols || b.files - a.files);
+    report.owners = owners;
+    report.unownedFiles = unownedFiles;
+  }
+
+  const owned = [...features.values()].filter(f => f.owners);
+  const unownedFiles = [...allFiles].filter(f => codeowners.ownersOf(f).length === 0).length;
+  const unownedHotFiles: HotFile[] = churn
+    .filter(c => c.churn > 0 && codeowners.ownersOf(c.path).length === 0)
+    .sort((a, b) => b.churn - a.churn)
+    .slice(0, 20)
+    .map(c => ({ path: c.path, commits: c.commits, churn: c.churn, feature: features.get(featureOf(c.path))?.name || featureOf(c.path), ...(c.package ? { package: c.package } : {}) }));
+
+  return {
+    file: codeowners.file,
+    rules: codeowners.rules.length,
+    owners: allOwners.size,
+    files: allFiles.size,
+    unownedFiles,
+    // Most owners first; most unowned files first
+    fragmented: owned.filter(f => f.owners!.length >= MANY_OWNERS)
+      .sort((a, b) => b.owners!.length - a.owners!.length).map(f => f.id),
+    unowned: owned.filter(f => f.id !== 'uncategorized' && f.unownedFiles! > 0)
+      .sort((a, b) => b.unownedFiles! - a.unownedFiles!).map(f => f.id),
+    unownedHotFiles,
+  };
+}
@@ -0,0 +1,339 @@
+// ─── Feature config loading ─────────────────────────────────────────────────
+//
+// Loads a FeatureConfig from JSON or YAML, resolves `extends` chains, and
+// validates every field with messages that name the file and the field path
+// (e.g. "features.yaml: features[3].paths[0]: invalid regex ..."). Problems
+// that leave the config usable (duplicate ids, unknown keys) are returned as
+// warnings instead of failing the run.
+
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import type { FeatureConfig, FeatureRule, LanguageConfig, Symbol, UnusedConfig } from './types';
+import type { Classifier } from './classify';
+import { LANGUAGES } from './languages';
+
+export interface LoadedConfig {
+  config: FeatureConfig;
+  files: string[];       // every file read, base configs first
+  warnings: string[];
+}
+
+// A config file as written: FeatureConfig fields are all optional, plus `extends`
+type RawConfig = Partial<FeatureConfig> & { extends?: string | string[] };
+
+const CONFIG_KEYS = new Set([
+  'name', 'description', 'extends', 'excludePaths', 'excludeChurn', 'matchPolicy', 'authorAliases', 'thresholds', 'testPaths', 'unused', 'languages', 'features',
+]);
+const RULE_KEYS = new Set([
+  'id', 'name', 'category', 'description', 'paths', 'exclude', 'symbols', 'scopes', 'priority', 'thresholds', 'subFeatures',
+]);
+const SUB_FEATURE_KEYS = new Set([...RULE_KEYS].filter(key => key !== 'thresholds'));
+const THRESHOLD_KEYS = new Set([
+  'maxUncategorizedPct', 'maxUncategorizedSymbols', 'maxSymbolsPerFeature', 'maxSymbolsPerFile', 'maxHotspotScore',
+]);
+const RULE_THRESHOLD_KEYS = new Set(['maxSymbols', 'maxSymbolsPerFile', 'maxHotspotScore']);
+const UNUSED_KEYS = new Set(['entryPoints', 'hooks', 'publicApi']);
+const LANGUAGE_KEYS = new Set(['extensions', 'kinds', 'ctagsKinds', 'define']);
+const MAPPED_KINDS = new Set(['function', 'method', 'class', 'component']);
+const PATTERN_FIELDS = ['paths', 'exclude', 'symbols', 'scopes'] as const;
+
+function typeName(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeName(value) === 'object';
+}
+
+/** Field-level problems in one config file. Empty when valid. */
+export function validateConfig(raw: unknown, file: string): { errors: string[]; warnings: string[] } {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const err = (field: string, message: string) => errors.push(`${file}: ${field}: ${message}`);
+
+  if (!isPlainObject(raw)) {
+    err('(root)', `expected an object, got ${typeName(raw)}`);
+    return { errors, warnings };
+  }
+
+  const expectString = (value: unknown, field: string) => {
+    if (value !== undefined && typeof value !== 'string') err(field, `expected a string, got ${typeName(value)}`);
+  };
+  const expectStringArray = (value: unknown, field: string): string[] => {
+    if (value === undefined) return [];
+    if (!Array.isArray(value)) {
+      err(field, `expected an array of strings, got ${typeName(value)}`);
+      return [];
+    }
+    value.forEach((v, i) => {
+      if (typeof v !== 'string') err(`${field}[${i}]`, `expected a string, got ${typeName(v)}`);
+    });
+    return value.filter((v): v is string => typeof v === 'string');
+  };
+  const expectThresholds = (value: unknown, field: string, known: Set<string>) => {
+    if (value === undefined) return;
+    if (!isPlainObject(value)) {
+      err(field, `expected an object, got ${typeName(value)}`);
+      return;
+    }
+    for (const [key, limit] of Object.entries(value)) {
+      if (!known.has(key)) warnings.push(`${file}: ${field}.${key}: unknown threshold (ignored)`);
+      else if (typeof limit !== 'number' || limit < 0) err(`${field}.${key}`, `expected a non-negative number, got ${JSON.stringify(limit)}`);
+    }
+  };
+
+  for (const key of Object.keys(raw)) {
+    if (!CONFIG_KEYS.has(key)) warnings.push(`${file}: ${key}: unknown field (ignored)`);
+  }
+  expectString(raw.name, 'name');
+  expectString(raw.description, 'description');
+  if (raw.extends !== undefined && typeof raw.extends !== 'string') expectStringArray(raw.extends, 'extends');
+  expectStringArray(raw.excludePaths, 'excludePaths');
+  expectStringArray(raw.excludeChurn, 'excludeChurn');
+  expectStringArray(raw.testPaths, 'testPaths');
+  if (raw.matchPolicy !== undefined && raw.matchPolicy !== 'first' && raw.matchPolicy !== 'most-specific') {
+    err('matchPolicy', `expected "first" or "most-specific", got ${JSON.stringify(raw.matchPolicy)}`);
+  }
+  if (raw.authorAliases !== undefined) {
+    if (!isPlainObject(raw.authorAliases)) {
+      err('authorAliases', `expected an object mapping names to arrays of aliases, got ${typeName(raw.authorAliases)}`);
+    } else {
+      for (const [name, aliases] of Object.entries(raw.authorAliases)) {
+        expectStringArray(aliases, `authorAliases.${name}`);
+      }
+    }
+  }
+
+  expectThresholds(raw.thresholds, 'thresholds', THRESHOLD_KEYS);
+
+  if (raw.unused !== undefined) {
+    if (!isPlainObject(raw.unused)) {
+      err('unused', `expected an object with entryPoints, hooks and publicApi, got ${typeName(raw.unused)}`);
+    } else {
+      for (const [key, value] of Object.entries(raw.unused)) {
+        if (!UNUSED_KEYS.has(key)) warnings.push(`${file}: unused.${key}: unknown field (ignored)`);
+        else expectStringArray(value, `unused.${key}`);
+      }
+    }
+  }
+
+  if (raw.languages !== undefined) {
+    if (!isPlainObject(raw.languages)) {
+      err('languages', `expected an object mapping language names to kind tables, got ${typeName(raw.languages)}`);
+    } else {
+      for (const [name, lang] of Object.entries(raw.languages)) {
+        const at = `languages.${name}`;
+        if (!isPlainObject(lang)) {
+          err(at, `expected an object, got ${typeName(lang)}`);
+          continue;
+        }
+        for (const key of Object.keys(lang)) {
+          if (!LANGUAGE_KEYS.has(key)) warnings.push(`${file}: ${at}.${key}: unknown field (ignored)`);
+        }
+        expectStringArray(lang.extensions, `${at}.extensions`).forEach((ext, i) => {
+          if (!ext.startsWith('.')) err(`${at}.extensions[${i}]`, `expected an extension starting with ".", got ${JSON.stringify(ext)}`);
+        });
+        if (lang.kinds !== undefined && !isPlainObject(lang.kinds)) {
+          err(`${at}.kinds`, `expected an object mapping ctags kinds to function, method or class, got ${typeName(lang.kinds)}`);
+        } else if (lang.kinds) {
+          for (const [kind, mapped] of Object.entries(lang.kinds)) {
+            if (mapped !== null && !MAPPED_KINDS.has(mapped as string)) {
+              err(`${at}.kinds.${kind}`, `expected function, method, class, component or null, got ${JSON.stringify(mapped)}`);
+            }
+          }
+        }
+        expectString(lang.ctagsKinds, `${at}.ctagsKinds`);
+        expectStringArray(lang.define, `${at}.define`);
+        if (!LANGUAGES[name] && (lang.extensions === undefined || lang.kinds === undefined)) {
+          err(at, 'a language not in the built-in table needs "extensions" and "kinds"');
+        }
+      }
+    }
+  }
+
+  // Features and, recursively, their sub-features (category optional, no thresholds)
+  const ids = new Map<string, string>();
+  const validateRules = (rules: unknown, field: string, nested: boolean) => {
+    if (rules === undefined) return;
+    if (!Array.isArray(rules)) {
+      err(field, `expected an array, got ${typeName(rules)}`);
+      return;
+    }
+    rules.forEach((rule: unknown, i: number) => {
+      const at = `${field}[${i}]`;
+      if (!isPlainObject(rule)) {
+        err(at, `expected an object, got ${typeName(rule)}`);
+        return;
+      }
+      const label = typeof rule.id === 'string' ? `${at} (${rule.id})` : at;
+      for (const key of Object.keys(rule)) {
+        if (!(nested ? SUB_FEATURE_KEYS : RULE_KEYS).has(key)) warnings.push(`${file}: ${label}.${key}: unknown field (ignored)`);
+      }
+      for (const key of nested ? ['id', 'name'] as const : ['id', 'name', 'category'] as const) {
+        if (typeof rule[key] !== 'string' || !rule[key]) {
+          err(`${label}.${key}`, rule[key] === undefined ? 'required' : `expected a non-empty string, got ${typeName(rule[key])}`);
+        }
+      }
+      if (rule.id === 'uncategorized') err(`${label}.id`, '"uncategorized" is reserved');
+      // Top-level duplicates merge counts (a warning in loadConfig); a sub-feature id must be unique
+      if (typeof rule.id === 'string') {
+        const first = ids.get(rule.id);
+        if (first !== undefined && (nested || first.includes('.subFeatures'))) err(`${label}.id`, `duplicate id "${rule.id}" (also ${first})`);
+        else if (first === undefined) ids.set(rule.id, at);
+      }
+      if (nested) expectString(rule.category, `${label}.category`);
+      expectString(rule.description, `${label}.description`);
+      if (rule.priority !== undefined && typeof rule.priority !== 'number') {
+        err(`${label}.priority`, `expected a number, got ${typeName(rule.priority)}`);
+      }
+      if (!nested) expectThresholds(rule.thresholds, `${label}.thresholds`, RULE_THRESHOLD_KEYS);
+
+      let patternCount = 0;
+      for (const key of PATTERN_FIELDS) {
+        const patterns = expectStringArray(rule[key], `${label}.${key}`);
+        if (key !== 'exclude') patternCount += patterns.length;
+        patterns.forEach((p, j) => {
+          if (!p.startsWith('re:')) return;
+          try {
+            new RegExp(p.slice(3));
+          } catch (e) {
+            err(`${label}.${key}[${j}]`, `invalid regex: ${(e as Error).message}`);
+          }
+        });
+      }
+      if (patternCount === 0) err(label, 'needs at least one pattern in paths, symbols or scopes');
+      validateRules(rule.subFeatures, `${label}.subFeatures`, true);
+    });
+  };
+  validateRules(raw.features, 'features', false);
+
+  return { errors, warnings };
+}
+
+function parseConfigFile(file: string): unknown {
+  let text: string;
+  try {
+    text = fs.readFileSync(file, 'utf-8');
+  } catch (e) {
+    throw new Error(`Cannot read config ${file}: ${(e as Error).message}`);
+  }
+  try {
+    return /\.ya?ml$/i.test(file) ? YAML.parse(text) : JSON.parse(text);
+  } catch (e) {
+    throw new Error(`${file}: parse error: ${(e as Error).message}`);
+  }
+}
+
+const dedupe = (items: string[]) => [...new Set(items)];
+
+function mergeLanguageConfigs(base: Record<string, LanguageConfig>, child: Record<string, LanguageConfig>): Record<string, LanguageConfig> {
+  const merged = { ...base };
+  for (const [name, lang] of Object.entries(child)) {
+    const prev = merged[name] || {};
+    merged[name] = {
+      ...prev,
+      ...lang,
+      extensions: dedupe([...(prev.extensions || []), ...(lang.extensions || [])]),
+      kinds: { ...(prev.kinds || {}), ...(lang.kinds || {}) },
+    };
+  }
+  return merged;
+}
+
+// Allowlists add up across extends
+function mergeUnusedConfigs(base: UnusedConfig, child: UnusedConfig): UnusedConfig {
+  const merged: UnusedConfig = {};
+  for (const key of ['entryPoints', 'hooks', 'publicApi'] as const) {
+    if (base[key] || child[key]) merged[key] = dedupe([...(base[key] || []), ...(child[key] || [])]);
+  }
+  return merged;
+}
+
+/**
+ * Layers `child` over `base`. Lists of excludes are concatenated; features
+ * with the same id are replaced by the child's version, and the child's
+ * features come first so they win under the "first" match policy.
+ */
+function mergeConfigs(base: RawConfig, child: RawConfig): RawConfig {
+  const childIds = new Set((child.features || []).map(f => f.id));
+  return {
+    ...base,
+    ...child,
+    excludePaths: dedupe([...(base.excludePaths || []), ...(child.excludePaths || [])]),
+    excludeChurn: dedupe([...(base.excludeChurn || []), ...(child.excludeChurn || [])]),
+    ...(base.testPaths || child.testPaths ? { testPaths: dedupe([...(base.testPaths || []), ...(child.testPaths || [])]) } : {}),
+    authorAliases: { ...(base.authorAliases || {}), ...(child.authorAliases || {}) },
+    thresholds: { ...(base.thresholds || {}), ...(child.thresholds || {}) },
+    ...(base.unused || child.unused ? { unused: mergeUnusedConfigs(base.unused || {}, child.unused || {}) } : {}),
+    languages: mergeLanguageConfigs(base.languages || {}, child.languages || {}),
+    features: [...(child.features || []), ...(base.features || []).filter(f => !childIds.has(f.id))],
+  };
+}
+
+/** Reads, validates and merges a config and everything it extends. Throws on errors. */
+export function loadConfig(configFile: string): LoadedConfig {
+  const files: string[] = [];
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  const load = (file: string, chain: string[]): RawConfig => {
+    const abs = path.resolve(file);
+    if (chain.includes(abs)) {
+      throw new Error(`Config extends cycle: ${[...chain, abs].map(f => path.relative(process.cwd(), f)).join(' → ')}`);
+    }
+    const raw = parseConfigFile(abs);
+    const result = validateConfig(raw, file);
+    errors.push(...result.errors);
+    warnings.push(...result.warnings);
+
+    // Parents are loaded even when this file is invalid, so all errors are reported at once
+    const ext = isPlainObject(raw) ? raw.extends : undefined;
+    const parents = typeof ext === 'string' ? [ext] : Array.isArray(ext) ? ext.filter((p): p is string => typeof p === 'string') : [];
+    let merged: RawConfig = {};
+    for (const parent of parents) {
+      const parentFile = path.resolve(path.dirname(abs), parent);
+      merged = mergeConfigs(merged, load(parentFile, [...chain, abs]));
+    }
+    if (result.errors.length > 0) return merged;
+
+    // Same-id features from different files replace each other; within a file they merge
+    const config = raw as RawConfig;
+    const seen = new Map<string, number>();
+    (config.features || []).forEach((f, i) => {
+      if (seen.has(f.id)) {
+        warnings.push(`${file}: features[${i}].id: duplicate id "${f.id}" (also features[${seen.get(f.id)}]); counts will be merged`);
+      } else {
+        seen.set(f.id, i);
+      }
+    });
+    files.push(abs);
+    return mergeConfigs(merged, config);
+  };
+
+  const merged = load(configFile, []);
+  if (errors.length > 0) {
+    throw new Error(`Invalid feature config:\n  ${errors.join('\n  ')}`);
+  }
+
+  const { extends: _extends, ...rest } = merged;
+  const config: FeatureConfig = {
+    ...rest,
+    name: rest.name || path.basename(configFile).replace(/\.(json|ya?ml)$/i, ''),
+    features: (rest.features || []) as FeatureRule[],
+  };
+  return { config, files, warnings };
+}
+
+/** Features whose rules match none of the extracted symbols (or their files). */
+export function findUnmatchedRules(features: FeatureRule[], symbols: Symbol[], classifier: Classifier): FeatureRule[] {
+  const matched = new Set<string>();
+  for (const sym of symbols) {
+    for (const m of classifier.matches(sym.file, sym)) matched.add(m.id);
+    if (matched.size === features.length) break;
+  }
+  const reported = new Set<string>();
+  return features.filter(f => !matched.has(f.id) && !reported.has(f.id) && reported.add(f.id));
+}
@@ -0,0 +1,95 @@
+// ─── Co-change coupling ─────────────────────────────────────────────────────
+//
+// Counts how often pairs of files, and pairs of features, change in the same
+// commit. Confidence is the larger of P(B changes | A changes) and
+// P(A changes | B changes), i.e. co-changes / min(commits A, commits B).
+// Very large commits (bulk renames, reformatting) are skipped as noise.
+
+import type { Classifier } from './classify';
+import type { CommitRecord } from './churn';
+
+export interface CouplingPair {
+  a: string;
+  b: string;
+  coChanges: number;
+  aCommits: number;
+  bCommits: number;
+  confidence: number;   // 0–1, rounded to 2 places
+}
+
+export interface CouplingReport {
+  commits: number;      // commits considered
+  skipped: number;      // commits over maxChangesetSize
+  files: CouplingPair[];
+  features: CouplingPair[];
+}
+
+export interface CouplingOptions {
+  maxChangesetSize?: number;   // ignore commits touching more files than this (default 50)
+  minCoChanges?: number;       // drop pairs seen together fewer times (default 2)
+  limit?: number;              // pairs kept per list (default 20)
+}
+
+function countPairs(sets: string[][], minCoChanges: number, limit: number): CouplingPair[] {
+  const single = new Map<string, number>();
+  const pairs = new Map<string, number>();
+  for (const items of sets) {
+    const sorted = [...new Set(items)].sort();
+    for (const item of sorted) single.set(item, (single.get(item) || 0) + 1);
+    for (let i = 0; i < sorted.length; i++) {
+      for (let j = i + 1; j < sorted.length; j++) {
+        const key = `${sorted[i]}\0${sorted[j]}`;
+        pairs.set(key, (pairs.get(key) || 0) + 1);
+      }
+    }
+  }
+
+  const result: CouplingPair[] = [];
+  for (const [key, coChanges] of pairs) {
+    if (coChanges < minCoChanges) continue;
+    const [a, b] = key.split('\0');
+    const aCommits = single.get(a)!;
+    const bCommits = single.get(b)!;
+    result.push({
+      a, b, coChanges, aCommits, bCommits,
+      confidence: Math.round((coChanges / Math.min(aCommits, bCommits)) * 100) / 100,
+    });
+  }
+  return result
+    .sort((x, y) => y.coChanges - x.coChanges || y.confidence - x.confidence || x.a.localeCompare(y.a))
+    .slice(0, limit);
+}
+
+export function analyzeCoupling(
+  history: CommitRecord[],
+  classifier: Classifier,
+  excludePatterns: string[],
+  options: CouplingOptions = {},
+): CouplingReport {
+  const maxChangesetSize = options.maxChangesetSize ?? 50;
+  const minCoChanges = options.minCoChanges ?? 2;
+  const limit = options.limit ?? 20;
+
+  const fileSets: string[][] = [];
+  const featureSets: string[][] = [];
+  let skipped = 0;
+  for (const commit of history) {
+    const files = commit.files.map(f => f.path).filter(p => !excludePatterns.some(ex => p.includes(ex)));
+    if (files.length === 0) continue;
+    if (files.length > maxChangesetSize) {
+      skipped++;
+      continue;
+    }
+    fileSets.push(files);
+    featureSets.push(
+      files.map(p => classifier.classify(p).id).filter(id => id !== 'uncategorized'),
+    );
+  }
+
+  return {
+    commits: fileSets.length,
+    skipped,
+    files: countPairs(fileSets, minCoChanges, limit),
+    features: countPairs(featureSets, minCoChanges, limit),
+  };
+}
@@ -0,0 +1,228 @@
+// ─── ctags extractor ────────────────────────────────────────────────────────
+
+import fs from 'fs';
+import path from 'path';
+import { spawnSync } from 'child_process';
+import type { CtagsEntry, Symbol } from './types';
+import { LANGUAGES, languageOfFile, type LanguageSpec } from './languages';
+
+/** Path to a Universal Ctags binary, or null if none is installed. */
+export function findCtags(): string | null {
+  // Prefer homebrew universal-ctags
+  const candidates = [
+    '/opt/homebrew/bin/ctags',
+    '/usr/local/bin/ctags',
+  ];
+  for (const c of candidates) {
+    if (fs.existsSync(c)) {
+      const ver = spawnSync(c, ['--version'], { encoding: 'utf-8' });
+      if (ver.stdout?.includes('Universal Ctags')) return c;
+    }
+  }
+  // Try PATH
+  const which = spawnSync('which', ['ctags'], { encoding: 'utf-8' });
+  if (which.stdout?.trim()) {
+    const ver = spawnSync(which.stdout.trim(), ['--version'], { encoding: 'utf-8' });
+    if (ver.stdout?.includes('Universal Ctags')) return which.stdout.trim();
+  }
+  return null;
+}
+
+// Always skipped, by every extractor
+export const DEFAULT_EXCLUDES = [
+  'node_modules',
+  '.next',
+  'dist',
+  'build',
+  '.git',
+  '*.d.ts',
+  '__pycache__',
+  '.gradle',
+  'target',
+  'coverage',
+];
+
+/** Version banner of a ctags binary (first line of --version). */
+export function ctagsVersion(ctagsBin: string): string {
+  const ver = spawnSync(ctagsBin, ['--version'], { encoding: 'utf-8' });
+  return (ver.stdout || '').split('\n')[0].trim();
+}
+
+/** Languages this ctags build has a parser for (enabled ones only). */
+export function ctagsLanguages(ctagsBin: string): Set<string> {
+  const list = spawnSync(ctagsBin, ['--list-languages'], { encoding: 'utf-8' });
+  return new Set((list.stdout || '').split('\n').map(l => l.trim()).filter(l => l && !l.endsWith('[disabled]')));
+}
+
+/**
+ * Options requesting `languages` from ctags; part of the extraction cache key.
+ * Languages ctags has no parser for are defined from their `define` options,
+ * or skipped and returned in `missing`.
+ */
+export function ctagsOptions(languages: Record<string, LanguageSpec>, available: Set<string>): { options: string[]; missing: string[] } {
+  const options: string[] = [];
+  const enabled: string[] = [];
+  const missing: string[] = [];
+  for (const [name, spec] of Object.entries(languages)) {
+    if (!available.has(name)) {
+      if (!spec.define) {
+        missing.push(name);
+        continue;
+      }
+      options.push(...spec.define);
+    } else {
+      // Extensions added by the config; ctags already maps its own
+      for (const ext of spec.extensions.filter(e => !LANGUAGES[name]?.extensions.includes(e))) {
+        options.push(`--map-${name}=+${ext}`);
+      }
+    }
+    if (spec.ctagsKinds) options.push(`--kinds-${name}=${spec.ctagsKinds}`);
+    enabled.push(name);
+  }
+  return {
+    options: [
+      '--output-format=json',
+      `--languages=${enabled.join(',')}`,
+      ...options,
+      '--fields=+KZSnel',           // Kind, scope, scopeKind, line number, end line, language
+      '--extras=+q',                // qualified names
+    ],
+    missing,
+  };
+}
+
+/**
+ * Runs ctags recursively over `repoRoot`, or only over `files` (absolute
+ * paths, fed through `-L -`) when given.
+ */
+export function runCtags(ctagsBin: string, repoRoot: string, excludePaths: string[], options: string[], files?: string[]): CtagsEntry[] {
+  const excludeArgs = [...DEFAULT_EXCLUDES, ...excludePaths].map(p => `--exclude=${p}`);
+  if (files && files.length === 0) return [];
+
+  const result = spawnSync(ctagsBin, [
+    ...options,
+    ...excludeArgs,
+    ...(files ? ['-L', '-'] : ['-R', repoRoot]),
+  ], {
+    encoding: 'utf-8',
+    maxBuffer: 200 * 1024 * 1024,
+    input: files ? files.join('\n') + '\n' : undefined,
+    stdio: ['pipe', 'pipe', 'pipe'],
+  });
+
+  if (result.error) throw new Error(`ctags failed: ${result.error.message}`);
+
+  const entries: CtagsEntry[] = [];
+  for (const line of (result.stdout || '').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const obj = JSON.parse(line);
+      entries.push({
+        name: obj.name,
+        path: obj.path,
+        line: obj.line || 0,
+        kind: obj.kind || 'unknown',
+        scope: obj.scope,
+        scopeKind: obj.scopeKind,
+        language: obj.language,
+        pattern: obj.pattern,
+        end: obj.end,
+      });
+    } catch {}
+  }
+  return entries;
+}
+
+// ─── Symbol filtering ────────────────────────────────────────────────────────
+
+// Filter out noise: lambdas, anonymous, internal framework symbols
+export const NOISE_NAMES = new Set(['<lambda>', '<anonymous>', 'anonymous', 'module.exports']);
+
+export function filterSymbols(entries: CtagsEntry[], repoRoot: string, languages: Record<string, LanguageSpec>): Symbol[] {
+  const symbols: Symbol[] = [];
+
+  for (const entry of entries) {
+    // Skip noise
+    if (NOISE_NAMES.has(entry.name)) continue;
+    if (entry.name.startsWith('__')) continue;
+
+    // Determine normalized kind from the language's kind table
+    const language = entry.language || languageOfFile(languages, entry.path);
+    const kinds = language ? languages[language]?.kinds : undefined;
+    const mapped = kinds?.[entry.kind];
+    let kind: Symbol['kind'];
+    if (!mapped) continue;
+    // Functions defined inside a class (C++, PHP) are methods
+    if (mapped === 'function' && entry.scopeKind && kinds![entry.scopeKind] === 'class') kind = 'method';
+    else if (mapped !== 'component') kind = mapped;
+    // ctags marks exported arrow functions / React components as 'constant'
+    else {
+      const isTsx = entry.path.endsWith('.tsx');
+      const isPascalCase = /^[A-Z][a-zA-Z0-9]+$/.test(entry.name);
+      const isHook = /^use[A-Z]/.test(entry.name);
+      // In .tsx files, include all PascalCase and hook constants (components)
+      // In other files, same heuristic but stricter
+      if (isPascalCase || isHook) {
+        kind = 'function';
+      } else if (isTsx && /^[a-z][a-zA-Z0-9]+$/.test(entry.name)) {
+        // In .tsx, also include camelCase exported constants (HOCs, utilities)
+        kind = 'function';
+      } else {
+        continue;
+      }
+    }
+
+    const relPath = path.relative(repoRoot, entry.path);
+
+    symbols.push({
+      name: entry.name,
+      kind,
+      file: relPath,
+      language,
+      line: entry.line,
+      endLine: entry.end,
+      scope: entry.scope,
+      signature: entry.pattern?.replace(/^\/\^/, '').replace(/\$\/$/, '').trim(),
+      feature: '',
+      featureName: '',
+    });
+  }
+
+  // Second pass: scan .tsx/.jsx files for exported arrow functions that
+  // ctags missed entirely (not even as constants)
+  const seenFiles = new Set(symbols.map(s => s.file));
+  const tsxFiles = new Set<string>();
+  for (const entry of entries) {
+    const rel = path.relative(repoRoot, entry.path);
+    if ((rel.endsWith('.tsx') || rel.endsWith('.jsx')) && !tsxFiles.has(rel)) {
+      tsxFiles.add(rel);
+    }
+  }
+
+  for (const relFile of tsxFiles) {
+    const absFile = path.join(repoRoot, relFile);
+    try {
+      const src = fs.readFileSync(absFile, 'utf-8');
+      const exportRe = /export\s+(?:default\s+)?(?:const|function)\s+([A-Z][a-zA-Z0-9]*)/g;
+      let match;
+      while ((match = exportRe.exec(src)) !== null) {
+        const name = match[1];
+        // Skip if ctags already captured this symbol in this file
+        if (symbols.some(s => s.file === relFile && s.name === name)) continue;
+        const line = src.substring(0, match.index).split('\n').length;
+        symbols.push({
+          name,
+          kind: 'function',
+          file: relFile,
+          language: languageOfFile(languages, relFile),
+          line,
+          signature: match[0].trim(),
+          feature: '',
+          featureName: '',
+        });
+      }
+    } catch {}
+  }
+
+  return symbols;
+}
@@ -0,0 +1,251 @@
+// ─── Snapshot diff ──────────────────────────────────────────────────────────
+//
+// Compares two --json snapshots. Symbols are matched by kind + scope + name:
+// first within the same file, then across files (a move). Whatever is left
+// over on either side is reported as removed or added.
+
+import fs from 'fs';
+import type { CensusSnapshot, FeatureReport, SnapshotSymbol } from './types';
+import { cell } from './markdown';
+
+export interface MovedSymbol {
+  name: string;
+  kind: SnapshotSymbol['kind'];
+  scope?: string;
+  fromFile: string;
+  toFile: string;
+  fromFeature: string;
+  toFeature: string;
+}
+
+export interface FeatureDelta {
+  id: string;
+  name: string;
+  before: { functions: number; methods: number; classes: number; total: number };
+  after: { functions: number; methods: number; classes: number; total: number };
+  delta: { functions: number; methods: number; classes: number; total: number };
+}
+
+export interface SnapshotDiff {
+  before: { path: string; extractedAt: string; symbols: number; coverage: number };
+  after: { path: string; extractedAt: string; symbols: number; coverage: number };
+  added: SnapshotSymbol[];
+  removed: SnapshotSymbol[];
+  moved: MovedSymbol[];          // file and/or feature changed
+  features: FeatureDelta[];      // only features whose counts changed
+}
+
+export function loadSnapshot(file: string): CensusSnapshot {
+  const data = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  if (!data || !Array.isArray(data.symbols) || !Array.isArray(data.features)) {
+    throw new Error(`${file} is not a census JSON snapshot (expected "symbols" and "features" arrays)`);
+  }
+  return data;
+}
+
+function identity(s: SnapshotSymbol): string {
+  return `${s.kind}\0${s.scope || ''}\0${s.name}`;
+}
+
+// Buckets symbols by key, keeping line order so overloads pair up predictably
+function bucket(symbols: SnapshotSymbol[], key: (s: SnapshotSymbol) => string): Map<string, SnapshotSymbol[]> {
+  const map = new Map<string, SnapshotSymbol[]>();
+  for (const s of [...symbols].sort((a, b) => a.line - b.line)) {
+    const k = key(s);
+    if (!map.has(k)) map.set(k, []);
+    map.get(k)!.push(s);
+  }
+  return map;
+}
+
+function counts(f: FeatureReport | undefined) {
+  return {
+    functions: f?.functions || 0,
+    methods: f?.methods || 0,
+    classes: f?.classes || 0,
+    total: f?.total || 0,
+  };
+}
+
+export function diffSnapshots(
+  before: CensusSnapshot,
+  after: CensusSnapshot,
+  paths: { before: string; after: string },
+): SnapshotDiff {
+  const moved: MovedSymbol[] = [];
+
+  // Pass 1: same file, same identity
+  const afterByFile = bucket(after.symbols, s => `${s.file}\0${identity(s)}`);
+  const unmatchedBefore: SnapshotSymbol[] = [];
+  for (const old of before.symbols) {
+    const candidates = afterByFile.get(`${old.file}\0${identity(old)}`);
+    const match = candidates?.shift();
+    if (!match) {
+      unmatchedBefore.push(old);
+    } else if (match.feature !== old.feature) {
+      moved.push({
+        name: old.name, kind: old.kind, scope: old.scope,
+        fromFile: old.file, toFile: match.file,
+        fromFeature: old.feature, toFeature: match.feature,
+      });
+    }
+  }
+
+  // Pass 2: same identity in a different file
+  const remainingAfter = [...afterByFile.values()].flat();
+  const afterByIdentity = bucket(remainingAfter, identity);
+  const removed: SnapshotSymbol[] = [];
+  for (const old of unmatchedBefore) {
+    const match = afterByIdentity.get(identity(old))?.shift();
+    if (!match) {
+      removed.push(old);
+      continue;
+    }
+    moved.push({
+      name: old.name, kind: old.kind, scope: old.scope,
+      fromFile: old.file, toFile: match.file,
+      fromFeature: old.feature, toFeature: match.feature,
+    });
+  }
+  const added = [...afterByIdentity.values()].flat();
+
+  // Per-feature count deltas
+  const beforeFeatures = new Map(before.features.map(f => [f.id, f]));
+  const afterFeatures = new Map(after.features.map(f => [f.id, f]));
+  const features: FeatureDelta[] = [];
+  for (const id of new Set([...beforeFeatures.keys(), ...afterFeatures.keys()])) {
+    const b = counts(beforeFeatures.get(id));
+    const a = counts(afterFeatures.get(id));
+    const delta = {
+      functions: a.functions - b.functions,
+      methods: a.methods - b.methods,
+      classes: a.classes - b.classes,
+      total: a.total - b.total,
+    };
+    if (!delta.functions && !delta.methods && !delta.classes) continue;
+    const name = afterFeatures.get(id)?.name || beforeFeatures.get(id)?.name || id;
+    features.push({ id, name, before: b, after: a, delta });
+  }
+  features.sort((x, y) => Math.abs(y.delta.total) - Math.abs(x.delta.total) || x.name.localeCompare(y.name));
+
+  const byFile = (x: SnapshotSymbol, y: SnapshotSymbol) => x.file.localeCompare(y.file) || x.line - y.line;
+  return {
+    before: { path: paths.before, extractedAt: before.extractedAt, symbols: before.symbols.length, coverage: parseFloat(before.coverageRate) || 0 },
+    after: { path: paths.after, extractedAt: after.extractedAt, symbols: after.symbols.length, coverage: parseFloat(after.coverageRate) || 0 },
+    added: added.sort(byFile),
+    removed: removed.sort(byFile),
+    moved: moved.sort((x, y) => x.toFile.localeCompare(y.toFile) || x.name.localeCompare(y.name)),
+    features,
+  };
+}
+
+// ─── Rendering ───────────────────────────────────────────────────────────────
+
+function signed(n: number): string {
+  return n > 0 ? `+${n}` : String(n);
+}
+
+function qualified(s: { name: string; scope?: string }): string {
+  return s.scope ? `${s.scope}.${s.name}` : s.name;
+}
+
+function moveDescription(m: MovedSymbol): string {
+  const parts: string[] = [];
+  if (m.fromFile !== m.toFile) parts.push(`${m.fromFile} → ${m.toFile}`);
+  if (m.fromFeature !== m.toFeature) parts.push(`[${m.fromFeature} → ${m.toFeature}]`);
+  return parts.join('  ');
+}
+
+export function renderDiffText(diff: SnapshotDiff, limit: number): string {
+  const lines: string[] = [];
+  const coverageDelta = diff.after.coverage - diff.before.coverage;
+  lines.push('');
+  lines.push('  ── CENSUS DIFF ─────────────────────────────────────────────────────────────────────');
+  lines.push('');
+  lines.push(`  Before:       ${diff.before.path} (${diff.before.symbols.toLocaleString()} symbols, ${diff.before.coverage.toFixed(1)}% categorized)`);
+  lines.push(`  After:        ${diff.after.path} (${diff.after.symbols.toLocaleString()} symbols, ${diff.after.coverage.toFixed(1)}% categorized)`);
+  lines.push(`  Added:        ${diff.added.length.toLocaleString()}`);
+  lines.push(`  Removed:      ${diff.removed.length.toLocaleString()}`);
+  lines.push(`  Moved:        ${diff.moved.length.toLocaleString()}`);
+  lines.push(`  Coverage:     ${signed(Number(coverageDelta.toFixed(1)))} pts`);
+  lines.push('');
+
+  if (diff.features.length > 0) {
+    lines.push('  ┌─ FEATURE DELTAS');
+    for (const f of diff.features) {
+      const parts = [
+        `${signed(f.delta.total).padStart(6)} sym`,
+        `${signed(f.delta.functions).padStart(5)}f`,
+        `${signed(f.delta.methods).padStart(6)}m`,
+        `${signed(f.delta.classes).padStart(5)}c`,
+        `(${f.before.total} → ${f.after.total})`,
+      ];
+      lines.push(`  │  ${f.name.padEnd(32)} ${parts.join('  ')}`);
+    }
+    lines.push('  │');
+  }
+
+  const section = <T>(title: string, items: T[], format: (item: T) => string) => {
+    if (items.length === 0) return;
+    lines.push(`  ┌─ ${title} (${items.length.toLocaleString()})`);
+    for (const item of items.slice(0, limit)) lines.push(`  │  ${format(item)}`);
+    if (items.length > limit) lines.push(`  │  … and ${(items.length - limit).toLocaleString()} more`);
+    lines.push('  │');
+  };
+  section('ADDED', diff.added, s => `+ ${s.kind.padEnd(8)} ${qualified(s)}  ${s.file}:${s.line}  [${s.feature}]`);
+  section('REMOVED', diff.removed, s => `- ${s.kind.padEnd(8)} ${qualified(s)}  ${s.file}:${s.line}  [${s.feature}]`);
+  section('MOVED', diff.moved, m => `~ ${m.kind.padEnd(8)} ${qualified(m)}  ${moveDescription(m)}`);
+
+  return lines.join('\n');
+}
+
+export function renderDiffMarkdown(diff: SnapshotDiff, limit: number): string {
+  const lines: string[] = [];
+  const coverageDelta = diff.after.coverage - diff.before.coverage;
+  lines.push('# Census Diff');
+  lines.push('');
+  lines.push(`${diff.before.path} (${diff.before.extractedAt.slice(0, 10)}) → ${diff.after.path} (${diff.after.extractedAt.slice(0, 10)})`);
+  lines.push('');
+  lines.push('| | Before | After | Change |');
+  lines.push('|-|-------:|------:|-------:|');
+  lines.push(`| Symbols | ${diff.before.symbols} | ${diff.after.symbols} | ${signed(diff.after.symbols - diff.before.symbols)} |`);
+  lines.push(`| Categorized | ${diff.before.coverage.toFixed(1)}% | ${diff.after.coverage.toFixed(1)}% | ${signed(Number(coverageDelta.toFixed(1)))} pts |`);
+  lines.push('');
+  lines.push(`${diff.added.length} added, ${diff.removed.length} removed, ${diff.moved.length} moved.`);
+  lines.push('');
+
+  if (diff.features.length > 0) {
+    lines.push('## Feature Deltas');
+    lines.push('');
+    lines.push('| Feature | Before | After | Symbols | F | M | C |');
+    lines.push('|---------|-------:|------:|--------:|--:|--:|--:|');
+    for (const f of diff.features) {
+      lines.push(`| ${cell(f.name)} | ${f.before.total} | ${f.after.total} | ${signed(f.delta.total)} | ${signed(f.delta.functions)} | ${signed(f.delta.methods)} | ${signed(f.delta.classes)} |`);
+    }
+    lines.push('');
+  }
+
+  const table = <T>(title: string, header: string[], items: T[], row: (item: T) => (string | number)[]) => {
+    if (items.length === 0) return;
+    lines.push(`## ${title} (${items.length})`);
+    lines.push('');
+    lines.push(`| ${header.join(' | ')} |`);
+    lines.push(`|${header.map(() => '---').join('|')}|`);
+    for (const item of items.slice(0, limit)) lines.push(`| ${row(item).map(cell).join(' | ')} |`);
+    if (items.length > limit) {
+      lines.push('');
+      lines.push(`…and ${items.length - limit} more.`);
+    }
+    lines.push('');
+  };
+  table('Added', ['Kind', 'Symbol', 'File', 'Feature'], diff.added, s => [s.kind, qualified(s), `${s.file}:${s.line}`, s.feature]);
+  table('Removed', ['Kind', 'Symbol', 'File', 'Feature'], diff.removed, s => [s.kind, qualified(s), `${s.file}:${s.line}`, s.feature]);
+  table('Moved', ['Kind', 'Symbol', 'From', 'To'], diff.moved, m => [
+    m.kind,
+    qualified(m),
+    m.fromFeature === m.toFeature ? m.fromFile : `${m.fromFile} [${m.fromFeature}]`,
+    m.fromFeature === m.toFeature ? m.toFile : `${m.toFile} [${m.toFeature}]`,
+  ]);
+
+  return lines.join('\n');
+}
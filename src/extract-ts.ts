@@ -0,0 +1,233 @@
+// ─── TypeScript extractor ───────────────────────────────────────────────────
+//
+// Alternative to ctags for TS/JS/TSX/JSX, built on the TypeScript compiler
+// API. Produces the same Symbol shape as filterSymbols(), plus accurate end
+// lines, export status, and arrow-function / HOC-wrapped React components,
+// which ctags only reports as constants (or misses entirely).
+
+import fs from 'fs';
+import path from 'path';
+import type * as TS from 'typescript';
+import type { Symbol } from './types';
+import { DEFAULT_EXCLUDES, NOISE_NAMES } from './ctags';
+import { LANGUAGES, languageOfFile } from './languages';
+import { globToRegExp } from './classify';
+
+export const TS_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+// Loaded on first use so ctags-only runs don't pay for the compiler
+function loadTypeScript(): typeof TS {
+  try {
+    return require('typescript');
+  } catch {
+    throw new Error('The TypeScript extractor needs the "typescript" package. Install it with: npm install typescript');
+  }
+}
+
+/**
+ * Matches ctags --exclude semantics: each pattern is a glob tested against
+ * both the entry's basename and its path relative to the repo root.
+ */
+export function createExcludeMatcher(patterns: string[]): (relPath: string) => boolean {
+  const compiled = patterns.map(p => globToRegExp(p.replace(/\/+$/, ''), false));
+  return (relPath: string) => {
+    const base = relPath.slice(relPath.lastIndexOf('/') + 1);
+    return compiled.some(re => re.test(base) || re.test(relPath));
+  };
+}
+
+/** Recursively lists files under `repoRoot` with one of `extensions`, as relative paths. */
+export function listSourceFiles(repoRoot: string, extensions: string[], excludePaths: string[]): string[] {
+  const isExcluded = createExcludeMatcher([...DEFAULT_EXCLUDES, ...excludePaths]);
+  const files: string[] = [];
+  const walk = (rel: string) => {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(path.join(repoRoot, rel), { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      const child = rel ? `${rel}/${entry.name}` : entry.name;
+      if (isExcluded(child)) continue;
+      if (entry.isDirectory()) walk(child);
+      else if (entry.isFile() && extensions.some(ext => entry.name.endsWith(ext))) files.push(child);
+    }
+  };
+  walk('');
+  return files.sort();
+}
+
+function scriptKind(ts: typeof TS, file: string): TS.ScriptKind {
+  if (file.endsWith('.tsx')) return ts.ScriptKind.TSX;
+  if (file.endsWith('.jsx')) return ts.ScriptKind.JSX;
+  if (/\.[mc]?js$/.test(file)) return ts.ScriptKind.JS;
+  return ts.ScriptKind.TS;
+}
+
+function hasExportModifier(ts: typeof TS, node: TS.Node): boolean {
+  const modifiers = ts.canHaveModifiers(node) ? ts.getModifiers(node) : undefined;
+  return !!modifiers?.some(m => m.kind === ts.SyntaxKind.ExportKeyword);
+}
+
+// Calls that wrap a component and return one; any other call with a callback
+// (`items.map(x => ...)`, `setTimeout(() => ...)`) yields a value, not a function
+const COMPONENT_WRAPPERS = new Set(['memo', 'forwardRef', 'observer', 'styled']);
+
+// `memo`, `React.memo`, and `styled(Button)` in `styled(Button)(...)`
+function isComponentWrapper(ts: typeof TS, callee: TS.Expression): boolean {
+  if (ts.isIdentifier(callee)) return COMPONENT_WRAPPERS.has(callee.text);
+  if (ts.isPropertyAccessExpression(callee)) return ts.isIdentifier(callee.expression) && COMPONENT_WRAPPERS.has(callee.name.text);
+  if (ts.isCallExpression(callee)) return isComponentWrapper(ts, callee.expression);
+  return false;
+}
+
+// Unwraps `memo(...)`, `forwardRef(...)`, `React.memo(forwardRef(...))` etc.
+function unwrapFunction(ts: typeof TS, expr: TS.Expression | undefined): TS.Expression | undefined {
+  while (expr) {
+    if (ts.isParenthesizedExpression(expr) || ts.isAsExpression(expr) || ts.isSatisfiesExpression(expr)) {
+      expr = expr.expression;
+    } else if (ts.isCallExpression(expr) && expr.arguments.length > 0 && isComponentWrapper(ts, expr.expression)) {
+      const inner = expr.arguments.find(a => ts.isArrowFunction(a) || ts.isFunctionExpression(a) || ts.isCallExpression(a));
+      if (!inner) return undefined;
+      expr = inner;
+    } else {
+      break;
+    }
+  }
+  return expr && (ts.isArrowFunction(expr) || ts.isFunctionExpression(expr) || ts.isClassExpression(expr)) ? expr : undefined;
+}
+
+/** Extracts functions, methods and classes from one source file. */
+export function extractFromSource(file: string, source: string): Symbol[] {
+  const ts = loadTypeScript();
+  const sf = ts.createSourceFile(file, source, ts.ScriptTarget.Latest, true, scriptKind(ts, file));
+  const symbols: Symbol[] = [];
+  const lineOf = (pos: number) => sf.getLineAndCharacterOfPosition(pos).line + 1;
+  const sourceLines = source.split('\n');
+  const language = languageOfFile(LANGUAGES, file);
+
+  // Names re-exported via `export { a, b as c }` or `export default a`
+  const exportedNames = new Set<string>();
+  for (const stmt of sf.statements) {
+    if (ts.isExportDeclaration(stmt) && !stmt.moduleSpecifier && stmt.exportClause && ts.isNamedExports(stmt.exportClause)) {
+      for (const el of stmt.exportClause.elements) exportedNames.add((el.propertyName || el.name).text);
+    } else if (ts.isExportAssignment(stmt) && ts.isIdentifier(stmt.expression)) {
+      exportedNames.add(stmt.expression.text);
+    }
+  }
+
+  const add = (name: string, kind: Symbol['kind'], nameNode: TS.Node, node: TS.Node, scope: string[], exported: boolean) => {
+    if (NOISE_NAMES.has(name) || name.startsWith('__')) return;
+    const line = lineOf(nameNode.getStart(sf));
+    symbols.push({
+      name,
+      kind,
+      file,
+      language,
+      line,
+      endLine: lineOf(node.getEnd()),
+      scope: scope.length > 0 ? scope.join('.') : undefined,
+      signature: sourceLines[line - 1]?.trim(),
+      exported,
+      feature: '',
+      featureName: '',
+    });
+  };
+
+  const visit = (node: TS.Node, scope: string[], topLevel: boolean) => {
+    const isExported = (name: string) => topLevel && (hasExportModifier(ts, node) || exportedNames.has(name));
+
+    if (ts.isFunctionDeclaration(node) && node.name) {
+      const name = node.name.text;
+      add(name, 'function', node.name, node, scope, isExported(name));
+      if (node.body) ts.forEachChild(node.body, c => visit(c, [...scope, name], false));
+      return;
+    }
+    if (ts.isFunctionDeclaration(node) && !node.name && node.body) {
+      // Anonymous `export default function () {}`: nothing to name, but walk the body
+      ts.forEachChild(node.body, c => visit(c, scope, false));
+      return;
+    }
+    if ((ts.isClassDeclaration(node) || ts.isClassExpression(node)) && node.name) {
+      const name = node.name.text;
+      add(name, 'class', node.name, node, scope, isExported(name));
+      for (const member of node.members) visit(member, [...scope, name], false);
+      return;
+    }
+    if ((ts.isMethodDeclaration(node) || ts.isGetAccessor(node) || ts.isSetAccessor(node)) && node.name && !ts.isComputedPropertyName(node.name)) {
+      const name = node.name.getText(sf);
+      add(name, 'method', node.name, node, scope, false);
+      if (node.body) ts.forEachChild(node.body, c => visit(c, [...scope, name], false));
+      return;
+    }
+    if (ts.isConstructorDeclaration(node)) {
+      add('constructor', 'method', node.getFirstToken(sf) || node, node, scope, false);
+      if (node.body) ts.forEachChild(node.body, c => visit(c, [...scope, 'constructor'], false));
+      return;
+    }
+    // Class fields holding functions: handleClick = () => { ... }
+    if (ts.isPropertyDeclaration(node) && ts.isIdentifier(node.name) && unwrapFunction(ts, node.initializer)) {
+      const name = node.name.text;
+      add(name, 'method', node.name, node, scope, false);
+      const fn = unwrapFunction(ts, node.initializer)!;
+      ts.forEachChild(fn, c => visit(c, [...scope, name], false));
+      return;
+    }
+    if (ts.isVariableStatement(node)) {
+      const exported = topLevel && hasExportModifier(ts, node);
+      for (const decl of node.declarationList.declarations) {
+        if (!ts.isIdentifier(decl.name)) continue;
+        const name = decl.name.text;
+        const fn = unwrapFunction(ts, decl.initializer);
+        if (fn && ts.isClassExpression(fn)) {
+          add(name, 'class', decl.name, decl, scope, exported || (topLevel && exportedNames.has(name)));
+          for (const member of fn.members) visit(member, [...scope, name], false);
+        } else if (fn) {
+          add(name, 'function', decl.name, decl, scope, exported || (topLevel && exportedNames.has(name)));
+          ts.forEachChild(fn, c => visit(c, [...scope, name], false));
+        } else if (decl.initializer && ts.isObjectLiteralExpression(decl.initializer)) {
+          // Object literal members holding functions: const api = { load: async () => { ... } }
+          const objScope = [...scope, name];
+          for (const prop of decl.initializer.properties) {
+            const member = ts.isPropertyAssignment(prop) && ts.isIdentifier(prop.name) ? unwrapFunction(ts, prop.initializer) : undefined;
+            if (member) {
+              const memberName = (prop.name as TS.Identifier).text;
+              add(memberName, 'method', prop.name!, prop, objScope, false);
+              ts.forEachChild(member, c => visit(c, [...objScope, memberName], false));
+            } else {
+              visit(prop, objScope, false);
+            }
+          }
+        } else if (decl.initializer) {
+          ts.forEachChild(decl.initializer, c => visit(c, scope, false));
+        }
+      }
+      return;
+    }
+    ts.forEachChild(node, c => visit(c, scope, false));
+  };
+
+  for (const stmt of sf.statements) visit(stmt, [], true);
+  return symbols;
+}
+
+/** Version of the installed compiler, for cache fingerprints. */
+export function typeScriptVersion(): string {
+  return loadTypeScript().version;
+}
+
+/** Extracts symbols from every TS/JS file under `repoRoot`, or only from `files` when given. */
+export function extractTypeScript(repoRoot: string, excludePaths: string[], files?: string[]): Symbol[] {
+  const symbols: Symbol[] = [];
+  for (const file of files || listSourceFiles(repoRoot, TS_EXTENSIONS, excludePaths)) {
+    let source: string;
+    try {
+      source = fs.readFileSync(path.join(repoRoot, file), 'utf-8');
+    } catch {
+      continue;
+    }
+    symbols.push(...extractFromSource(file, source));
+  }
+  return symbols;
+}
@@ -0,0 +1,183 @@
+// ─── Census at past commits (--at, --history) ──────────────────────────────
+//
+// Each ref is checked out into a temporary detached git worktree, removed
+// again afterwards even when extraction fails, and analyzed there with the
+// current config, so every point in a history is classified by the same
+// rules. A repo that is a sub-directory of its git repository is analyzed at
+// the same sub-directory. With --every, each week, month or quarter is
+// represented by the last commit on HEAD's first-parent line before the
+// period ended, so merged branches count from the day they landed.
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { spawnSync } from 'child_process';
+import type { GitRef, HistoryReport } from './types';
+import { nextPeriod, periodLabel, periodStart, sparkline, type TrendInterval } from './trends';
+import { cell } from './markdown';
+
+function git(cwd: string, args: string[]): string {
+  // Hooks are off: checking out a worktree would otherwise run post-checkout
+  const result = spawnSync('git', ['-C', cwd, '-c', 'core.hooksPath=/dev/null', ...args], {
+    encoding: 'utf-8',
+    maxBuffer: 256 * 1024 * 1024,
+  });
+  if (result.error) throw new Error(`git ${args[0]} failed: ${result.error.message}`);
+  if (result.status !== 0) throw new Error(`git ${args[0]} failed: ${(result.stderr || '').trim()}`);
+  return (result.stdout || '').trim();
+}
+
+/** The commit a ref (tag, branch, sha, HEAD~10, ...) points at, with its date. */
+export function resolveRef(root: string, ref: string): GitRef {
+  if (ref.startsWith('-')) throw new Error(`invalid git ref "${ref}"`);
+  let commit: string;
+  try {
+    commit = git(root, ['rev-parse', '--verify', '--quiet', `${ref}^{commit}`]);
+  } catch (err) {
+    if (/not a git repository/.test((err as Error).message)) throw new Error(`${root} is not inside a git repository`);
+    throw new Error(`unknown git ref "${ref}" in ${root}`);
+  }
+  return { ref, commit, date: git(root, ['show', '-s', '--format=%cI', commit]) };
+}
+
+/**
+ * Runs `fn` on a checkout of `commit` in a temporary worktree, passing the
+ * directory that corresponds to `root`. The worktree is removed afterwards.
+ */
+export async function withWorktree<T>(root: string, commit: string, fn: (dir: string) => Promise<T>): Promise<T> {
+  let top: string;
+  try {
+    top = git(root, ['rev-parse', '--show-toplevel']);
+  } catch {
+    throw new Error(`${root} is not inside a git repository`);
+  }
+  const prefix = git(root, ['rev-parse', '--show-prefix']);
+  const parent = fs.mkdtempSync(path.join(os.tmpdir(), 'repo-feature-check-'));
+  const dir = path.join(parent, path.basename(top));
+  try {
+    git(top, ['worktree', 'add', '--detach', '--quiet', dir, commit]);
+    return await fn(path.join(dir, prefix));
+  } finally {
+    try {
+      git(top, ['worktree', 'remove', '--force', dir]);
+    } catch {}
+    fs.rmSync(parent, { recursive: true, force: true });
+    try {
+      git(top, ['worktree', 'prune']);
+    } catch {}
+  }
+}
+
+/**
+ * One ref per period from the oldest to the newest first-parent commit on
+ * HEAD (within `since` / `until`, in any format git accepts), labelled with
+ * the period. Consecutive periods without commits share a commit.
+ */
+export function periodicRefs(root: string, every: TrendInterval, window: { since?: string | null; until?: string | null } = {}): GitRef[] {
+  const args = ['log', '--first-parent', '--format=%H %cI'];
+  if (window.since) args.push(`--since=${window.since}`);
+  if (window.until) args.push(`--until=${window.until}`);
+  const commits = git(root, [...args, 'HEAD', '--'])
+    .split('\n')
+    .filter(Boolean)
+    .map(line => {
+      const [commit, date] = line.split(' ');
+      return { commit, date, time: new Date(date).getTime() };
+    });
+  if (commits.length === 0) return [];
+
+  // Not Math.min(...): spreading a long history overflows the call stack
+  const earliest = commits.reduce((min, c) => Math.min(min, c.time), Infinity);
+  const refs: GitRef[] = [];
+  const last = new Date(commits.reduce((max, c) => Math.max(max, c.time), -Infinity));
+  for (let start = periodStart(new Date(earliest), every); start <= last; start = nextPeriod(start, every)) {
+    const end = nextPeriod(start, every).getTime();
+    // Newest first: the first commit before the period's end
+    const hit = commits.find(c => c.time < end);
+    if (hit) refs.push({ ref: periodLabel(start, every), commit: hit.commit, date: hit.date });
+  }
+  return refs;
+}
+
+function signedPct(before: number, after: number): string {
+  if (before === 0) return after === 0 ? '0%' : 'new';
+  const pct = Math.round(((after - before) / before) * 100);
+  return `${pct > 0 ? '+' : ''}${pct}%`;
+}
+
+function signed(n: number): string {
+  return n > 0 ? `+${n.toLocaleString()}` : n.toLocaleString();
+}
+
+function span(report: HistoryReport): string {
+  const { points } = report;
+  const first = points[0].date.slice(0, 10);
+  const last = points[points.length - 1].date.slice(0, 10);
+  return `${points.length} refs, ${first} to ${last}${report.every ? `, every ${report.every}` : ''}`;
+}
+
+export function renderHistoryText(report: HistoryReport): string {
+  const lines: string[] = [];
+  lines.push('');
+  lines.push(`  ── SYMBOL HISTORY (${report.points.length ? span(report) : 'no refs'}) ──────────────────────────────`);
+  lines.push('');
+  if (report.points.length === 0) {
+    lines.push('    (no commits)');
+    return lines.join('\n');
+  }
+  lines.push(`  ${'Ref'.padEnd(20)} ${'Commit'.padEnd(10)} ${'Date'.padEnd(10)}  ${'Symbols'.padStart(8)}  ${'F'.padStart(6)}  ${'M'.padStart(6)}  ${'C'.padStart(6)}`);
+  for (const p of report.points) {
+    const t = p.totals;
+    lines.push(`  ${p.ref.slice(0, 20).padEnd(20)} ${p.commit.slice(0, 10)} ${p.date.slice(0, 10)}  ${t.total.toLocaleString().padStart(8)}  ${t.functions.toLocaleString().padStart(6)}  ${t.methods.toLocaleString().padStart(6)}  ${t.classes.toLocaleString().padStart(6)}`);
+  }
+  lines.push('');
+
+  const first = report.points[0];
+  const last = report.points[report.points.length - 1];
+  lines.push(`  ┌─ BY FEATURE (symbols, ${first.ref} → ${last.ref})`);
+  for (const f of report.features) {
+    const series = report.points.map(p => p.features[f.id]?.total || 0);
+    const before = series[0];
+    const after = series[series.length - 1];
+    lines.push(`  │  ${f.name.padEnd(32)} ${before.toLocaleString().padStart(7)} → ${after.toLocaleString().padStart(7)}  ${signed(after - before).padStart(7)}  ${signedPct(before, after).padStart(6)}  ${sparkline(series)}`);
+  }
+  lines.push('  │');
+  return lines.join('\n');
+}
+
+export function renderHistoryMarkdown(report: HistoryReport): string {
+  const lines: string[] = [];
+  lines.push(`# Symbol History: ${path.basename(report.repo)}`);
+  lines.push('');
+  if (report.points.length === 0) {
+    lines.push('No commits in the requested range.');
+    return lines.join('\n') + '\n';
+  }
+  lines.push(`Extracted ${report.extractedAt.slice(0, 10)} | ${span(report)}`);
+  lines.push('');
+
+  lines.push('## Totals');
+  lines.push('');
+  lines.push('| Ref | Commit | Date | Symbols | F | M | C |');
+  lines.push('|-----|--------|------|--------:|--:|--:|--:|');
+  for (const p of report.points) {
+    lines.push(`| ${[p.ref, p.commit.slice(0, 10), p.date.slice(0, 10), p.totals.total, p.totals.functions, p.totals.methods, p.totals.classes].map(cell).join(' | ')} |`);
+  }
+  lines.push('');
+
+  lines.push('## Growth by Feature');
+  lines.push('');
+  lines.push(`| Feature | ${report.points.map(p => cell(p.ref)).join(' | ')} | Change |`);
+  lines.push(`|---------|${report.points.map(() => '----:|').join('')}-------:|`);
+  for (const f of report.features) {
+    const counts = report.points.map(p => p.features[f.id]);
+    const cells = counts.map(c => (c ? `${c.total} (${c.functions}/${c.methods}/${c.classes})` : '–'));
+    const before = counts[0]?.total || 0;
+    const after = counts[counts.length - 1]?.total || 0;
+    lines.push(`| ${[f.name, ...cells, `${signed(after - before)} (${signedPct(before, after)})`].map(cell).join(' | ')} |`);
+  }
+  lines.push('');
+  lines.push('**Column key**: each cell is symbols (functions/methods/classes) at that ref; Change compares the newest ref with the oldest.');
+  lines.push('');
+  return lines.join('\n');
+}
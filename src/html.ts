@@ -0,0 +1,444 @@
+// ─── HTML report ─────────────────────────────────────────────────────────────
+//
+// Renders the census as one self-contained HTML file (no network access, no
+// external assets) for people who won't run the CLI: a zoomable treemap of
+// categories → features → files sized by symbol count and colored by churn,
+// sortable feature and hotspot tables, and a search over every symbol with
+// file:line links. The data is embedded as JSON and drawn by a small inline
+// script.
+
+import { spawnSync } from 'child_process';
+import type { FeatureReport, FileChurn, HotFile, HotSymbol, Symbol } from './types';
+
+export interface HtmlReportInput {
+  repoName: string;
+  analyzedAt: Date;
+  churnWindow: string | null;  // described churn window, null without churn
+  totalSymbols: number;
+  coveragePct: string;
+  features: FeatureReport[];   // already sorted for display
+  hotFiles: HotFile[];         // sorted by churn, descending
+  hotSymbols: HotSymbol[];     // sorted by churn, descending
+  symbols: Symbol[];
+  churn: FileChurn[];
+  linkTemplate: string | null; // "{file}" and "{line}" are replaced; null for plain text locations
+}
+
+const KIND_CODES: Record<Symbol['kind'], string> = { function: 'f', method: 'm', class: 'c' };
+
+function git(repoRoot: string, args: string[]): string | null {
+  const result = spawnSync('git', ['-C', repoRoot, ...args], { encoding: 'utf-8' });
+  return result.status === 0 ? result.stdout.trim() : null;
+}
+
+/**
+ * Link template for symbol locations: the file at `rev` (default HEAD) on the
+ * origin remote's web UI (GitHub, GitLab or Bitbucket URL layout), else a
+ * vscode:// link to the local checkout.
+ */
+export function sourceLinkTemplate(repoRoot: string, rev = 'HEAD'): string {
+  const remote = git(repoRoot, ['remote', 'get-url', 'origin']);
+  const sha = git(repoRoot, ['rev-parse', rev]);
+  const prefix = git(repoRoot, ['rev-parse', '--show-prefix']) ?? '';
+  // git@host:org/repo.git and ssh://git@host/org/repo.git → https://host/org/repo
+  const base = remote
+    ?.replace(/^git@([^:]+):/, 'https://$1/')
+    .replace(/^ssh:\/\/(?:[^@/]+@)?([^/:]+)(?::\d+)?\//, 'https://$1/')
+    .replace(/^https?:\/\/[^@/]+@/, 'https://')
+    .replace(/\.git$/, '');
+  if (!base || !sha || !/^https?:\/\//.test(base)) return `vscode://file/${repoRoot.replace(/^\//, '')}/{file}:{line}`;
+  if (base.includes('gitlab')) return `${base}/-/blob/${sha}/${prefix}{file}#L{line}`;
+  if (base.includes('bitbucket')) return `${base}/src/${sha}/${prefix}{file}#lines-{line}`;
+  return `${base}/blob/${sha}/${prefix}{file}#L{line}`;
+}
+
+function htmlEscape(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// Compact row-oriented data: symbols and files can number in the hundreds of thousands
+function buildData(input: HtmlReportInput) {
+  const featureIndex = new Map(input.features.map((f, i) => [f.id, i]));
+  const churnByFile = new Map(input.churn.map(c => [c.path, c]));
+
+  const files = new Map<string, { index: number; symbols: number; features: Map<number, number> }>();
+  const symbolRows: (string | number)[][] = [];
+  for (const sym of input.symbols) {
+    let file = files.get(sym.file);
+    if (!file) {
+      file = { index: files.size, symbols: 0, features: new Map() };
+      files.set(sym.file, file);
+    }
+    const feature = featureIndex.get(sym.feature) ?? -1;
+    file.symbols++;
+    file.features.set(feature, (file.features.get(feature) || 0) + 1);
+    symbolRows.push([sym.name, KIND_CODES[sym.kind], sym.scope || '', file.index, sym.line]);
+  }
+
+  // A file sits under the feature holding most of its symbols
+  const fileRows = [...files].map(([path, f]) => {
+    const feature = [...f.features].sort((a, b) => b[1] - a[1])[0][0];
+    const churn = churnByFile.get(path);
+    return [path, feature, f.symbols, churn?.churn || 0, churn?.commits || 0];
+  });
+
+  return {
+    repo: input.repoName,
+    analyzedAt: input.analyzedAt.toISOString().slice(0, 10),
+    churnWindow: input.churnWindow,
+    totalSymbols: input.totalSymbols,
+    coveragePct: input.coveragePct,
+    features: input.features.map(f => ({
+      id: f.id, name: f.name, category: f.category, total: f.total,
+      functions: f.functions, methods: f.methods, classes: f.classes,
+      commits: f.commits || 0, churn: f.churn || 0, hotspotScore: f.hotspotScore || 0,
+    })),
+    files: fileRows,
+    symbols: symbolRows,
+    hotFiles: input.hotFiles.slice(0, 100),
+    hotSymbols: input.hotSymbols,
+    link: input.linkTemplate,
+  };
+}
+
+const STYLE = `
+  body { font: 14px/1.4 -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; margin: 0; color: #1f2328; background: #fff; }
+  header { padding: 16px 24px; border-bottom: 1px solid #d0d7de; background: #f6f8fa; }
+  header h1 { margin: 0 0 4px; font-size: 20px; }
+  header .meta { color: #59636e; }
+  main { padding: 0 24px 32px; max-width: 1400px; }
+  h2 { font-size: 16px; margin: 28px 0 8px; }
+  .crumbs { margin-bottom: 6px; color: #59636e; }
+  .crumbs a { color: #0969da; cursor: pointer; }
+  #treemap { position: relative; height: 560px; border: 1px solid #d0d7de; overflow: hidden; }
+  .box { position: absolute; box-sizing: border-box; border: 1px solid #fff; overflow: hidden; cursor: pointer; }
+  .box > .label { position: absolute; left: 3px; top: 1px; right: 3px; font-size: 12px; font-weight: 600; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; pointer-events: none; }
+  .leaf { position: absolute; box-sizing: border-box; border: 1px solid rgba(255,255,255,0.7); }
+  .legend { margin-top: 6px; color: #59636e; font-size: 12px; }
+  .legend span { display: inline-block; width: 28px; height: 10px; vertical-align: middle; }
+  table { border-collapse: collapse; width: 100%; font-size: 13px; }
+  th, td { padding: 4px 8px; border-bottom: 1px solid #eaeef2; text-align: left; white-space: nowrap; }
+  th { cursor: pointer; user-select: none; background: #f6f8fa; position: sticky; top: 0; }
+  th.num, td.num { text-align: right; }
+  th.sorted-asc::after { content: " ▲"; }
+  th.sorted-desc::after { content: " ▼"; }
+  .scroll { max-height: 420px; overflow: auto; border: 1px solid #d0d7de; }
+  #search { width: 420px; padding: 6px 8px; font-size: 14px; }
+  #search-count { margin-left: 8px; color: #59636e; }
+  a { color: #0969da; text-decoration: none; }
+  a:hover { text-decoration: underline; }
+  .kind { color: #59636e; font-family: ui-monospace, SFMono-Regular, Menlo, monospace; }
+`;
+
+// Client script; kept free of template-literal syntax so it can live in this string
+const SCRIPT = `
+(function () {
+  var D = JSON.parse(document.getElementById('census-data').textContent);
+  var hasChurn = !!D.churnWindow;
+  var KINDS = { f: 'function', m: 'method', c: 'class' };
+
+  function el(tag, className, text) {
+    var node = document.createElement(tag);
+    if (className) node.className = className;
+    if (text !== undefined) node.textContent = text;
+    return node;
+  }
+  function fmt(n) { return typeof n === 'number' ? n.toLocaleString() : n; }
+  function sourceLink(file, line) {
+    var text = file + ':' + line;
+    if (!D.link) return el('span', '', text);
+    var a = el('a', '', text);
+    a.href = D.link.replace('{file}', file.split('/').map(encodeURIComponent).join('/')).replace('{line}', line);
+    a.target = '_blank';
+    return a;
+  }
+
+  // ── Treemap ──
+  var root = { name: D.repo, children: [], value: 0, churn: 0 };
+  var byCategory = {};
+  D.features.forEach(function (f) {
+    var cat = byCategory[f.category];
+    if (!cat) {
+      cat = byCategory[f.category] = { name: f.category, children: [], value: 0, churn: 0 };
+      root.children.push(cat);
+    }
+    f.node = { name: f.name, children: [], value: 0, churn: f.churn };
+    cat.children.push(f.node);
+    cat.churn += f.churn;
+  });
+  D.files.forEach(function (row) {
+    var feature = D.features[row[1]];
+    if (!feature || row[2] === 0) return;
+    feature.node.children.push({ name: row[0], value: row[2], churn: row[3], commits: row[4] });
+  });
+  function sum(node) {
+    if (!node.children) return node.value;
+    node.children = node.children.filter(function (c) { return sum(c) > 0; });
+    node.value = node.children.reduce(function (s, c) { return s + c.value; }, 0);
+    return node.value;
+  }
+  sum(root);
+
+  // Highest churn per depth, so colors compare like with like
+  var maxChurn = [0, 0, 0, 0];
+  (function walk(node, depth) {
+    maxChurn[depth] = Math.max(maxChurn[depth], node.churn || 0);
+    (node.children || []).forEach(function (c) { walk(c, depth + 1); });
+  })(root, 0);
+
+  function color(churn, depth) {
+    if (!hasChurn) return depth === 3 ? '#b6c6d9' : '#8fa6bf';
+    var max = maxChurn[depth] || 1;
+    var t = churn > 0 ? Math.log(1 + churn) / Math.log(1 + max) : 0;
+    // pale green (cold) → yellow → red (hot)
+    var hue = 120 - 120 * t;
+    return 'hsl(' + hue.toFixed(0) + ', 65%, ' + (78 - 28 * t).toFixed(0) + '%)';
+  }
+
+  // Squarified layout (Bruls, Huizing, van Wijk)
+  function squarify(items, x, y, w, h) {
+    var out = [];
+    var total = items.reduce(function (s, it) { return s + it.value; }, 0);
+    if (total <= 0 || w <= 0 || h <= 0) return out;
+    var scale = (w * h) / total;
+    var rest = items.slice().sort(function (a, b) { return b.value - a.value; });
+    function worst(sumArea, minArea, maxArea, side) {
+      var s2 = sumArea * sumArea, side2 = side * side;
+      return Math.max((side2 * maxArea) / s2, s2 / (side2 * minArea));
+    }
+    while (rest.length) {
+      var side = Math.min(w, h);
+      var first = rest[0].value * scale;
+      var rowSum = first, rowMin = first, rowMax = first, n = 1;
+      while (n < rest.length) {
+        var a = rest[n].value * scale;
+        if (worst(rowSum + a, Math.min(rowMin, a), Math.max(rowMax, a), side) > worst(rowSum, rowMin, rowMax, side)) break;
+        rowSum += a; rowMin = Math.min(rowMin, a); rowMax = Math.max(rowMax, a); n++;
+      }
+      var thick = rowSum / side, offset = 0;
+      rest.slice(0, n).forEach(function (it) {
+        var len = (it.value * scale) / thick;
+        if (w >= h) out.push({ item: it, x: x, y: y + offset, w: thick, h: len });
+        else out.push({ item: it, x: x + offset, y: y, w: len, h: thick });
+        offset += len;
+      });
+      if (w >= h) { x += thick; w -= thick; } else { y += thick; h -= thick; }
+      rest = rest.slice(n);
+    }
+    return out;
+  }
+
+  var path = [root];
+  var map = document.getElementById('treemap');
+  var crumbs = document.getElementById('crumbs');
+
+  function tooltip(node) {
+    return node.name + ' — ' + fmt(node.value) + ' symbols' + (hasChurn ? ', ' + fmt(node.churn || 0) + ' churn' : '');
+  }
+
+  function draw() {
+    var node = path[path.length - 1];
+    var depth = path.length;
+    map.innerHTML = '';
+    crumbs.innerHTML = '';
+    path.forEach(function (p, i) {
+      if (i > 0) crumbs.appendChild(document.createTextNode(' › '));
+      if (i === path.length - 1) { crumbs.appendChild(el('span', '', p.name)); return; }
+      var a = el('a', '', p.name);
+      a.onclick = function () { path = path.slice(0, i + 1); draw(); };
+      crumbs.appendChild(a);
+    });
+
+    squarify(node.children || [], 0, 0, map.clientWidth, map.clientHeight).forEach(function (r) {
+      var child = r.item;
+      var box = el('div', 'box');
+      box.style.left = r.x + 'px'; box.style.top = r.y + 'px';
+      box.style.width = r.w + 'px'; box.style.height = r.h + 'px';
+      box.style.background = color(child.churn || 0, depth);
+      box.title = tooltip(child);
+      if (child.children && r.w > 30 && r.h > 30) {
+        squarify(child.children, 0, 18, r.w - 2, r.h - 20).forEach(function (g) {
+          var leaf = el('div', 'leaf');
+          leaf.style.left = g.x + 'px'; leaf.style.top = g.y + 'px';
+          leaf.style.width = g.w + 'px'; leaf.style.height = g.h + 'px';
+          leaf.style.background = color(g.item.churn || 0, depth + 1);
+          leaf.title = tooltip(g.item);
+          box.appendChild(leaf);
+        });
+      }
+      if (r.w > 40 && r.h > 14) box.appendChild(el('div', 'label', child.name + ' (' + fmt(child.value) + ')'));
+      if (child.children) box.onclick = function () { path.push(child); draw(); };
+      map.appendChild(box);
+    });
+  }
+  window.addEventListener('resize', draw);
+  draw();
+
+  // ── Sortable tables ──
+  function table(containerId, columns, rows) {
+    var container = document.getElementById(containerId);
+    var tbl = el('table');
+    var head = el('tr');
+    var body = el('tbody');
+    var sortIndex = -1, ascending = false;
+    columns.forEach(function (col, i) {
+      var th = el('th', col.num ? 'num' : '', col.title);
+      th.onclick = function () {
+        ascending = sortIndex === i ? !ascending : !col.num;
+        sortIndex = i;
+        Array.prototype.forEach.call(head.children, function (h) { h.classList.remove('sorted-asc', 'sorted-desc'); });
+        th.classList.add(ascending ? 'sorted-asc' : 'sorted-desc');
+        rows.sort(function (a, b) {
+          var x = col.value(a), y = col.value(b);
+          var c = typeof x === 'number' ? x - y : String(x).localeCompare(String(y));
+          return ascending ? c : -c;
+        });
+        render();
+      };
+      head.appendChild(th);
+    });
+    function render() {
+      body.innerHTML = '';
+      rows.forEach(function (row) {
+        var tr = el('tr');
+        columns.forEach(function (col) {
+          var td = el('td', col.num ? 'num' : '');
+          var content = col.render ? col.render(row) : fmt(col.value(row));
+          if (typeof content === 'object') td.appendChild(content); else td.textContent = content;
+          tr.appendChild(td);
+        });
+        body.appendChild(tr);
+      });
+    }
+    var thead = el('thead');
+    thead.appendChild(head);
+    tbl.appendChild(thead);
+    tbl.appendChild(body);
+    container.appendChild(tbl);
+    render();
+  }
+
+  var featureColumns = [
+    { title: 'Category', value: function (f) { return f.category; } },
+    { title: 'Feature', value: function (f) { return f.name; } },
+    { title: 'Symbols', num: true, value: function (f) { return f.total; } },
+    { title: 'Functions', num: true, value: function (f) { return f.functions; } },
+    { title: 'Methods', num: true, value: function (f) { return f.methods; } },
+    { title: 'Classes', num: true, value: function (f) { return f.classes; } },
+  ];
+  if (hasChurn) {
+    featureColumns.push(
+      { title: 'Commits', num: true, value: function (f) { return f.commits; } },
+      { title: 'Churn', num: true, value: function (f) { return f.churn; } },
+      { title: 'Hotspot score', num: true, value: function (f) { return f.hotspotScore; } }
+    );
+  }
+  table('features', featureColumns, D.features.slice());
+
+  if (hasChurn) {
+    table('hot-files', [
+      { title: 'Churn', num: true, value: function (f) { return f.churn; } },
+      { title: 'Commits', num: true, value: function (f) { return f.commits; } },
+      { title: 'Feature', value: function (f) { return f.feature; } },
+      { title: 'File', value: function (f) { return f.path; } },
+    ], D.hotFiles.slice());
+    table('hot-symbols', [
+      { title: 'Churn', num: true, value: function (s) { return s.churn; } },
+      { title: 'Commits', num: true, value: function (s) { return s.commits; } },
+      { title: 'Feature', value: function (s) { return s.feature; } },
+      { title: 'Symbol', value: function (s) { return s.scope ? s.scope + '.' + s.name : s.name; } },
+      { title: 'Location', value: function (s) { return s.file + ':' + s.line; }, render: function (s) { return sourceLink(s.file, s.line); } },
+    ], D.hotSymbols.slice());
+  }
+
+  // ── Symbol search ──
+  var LIMIT = 200;
+  var input = document.getElementById('search');
+  var results = document.getElementById('search-results');
+  var count = document.getElementById('search-count');
+  var timer = null;
+  function search() {
+    var q = input.value.trim().toLowerCase();
+    results.innerHTML = '';
+    if (!q) { count.textContent = fmt(D.symbols.length) + ' symbols'; return; }
+    var matches = [];
+    for (var i = 0; i < D.symbols.length; i++) {
+      var s = D.symbols[i];
+      var qualified = s[2] ? s[2] + '.' + s[0] : s[0];
+      if (qualified.toLowerCase().indexOf(q) >= 0 || D.files[s[3]][0].toLowerCase().indexOf(q) >= 0) matches.push(s);
+    }
+    count.textContent = fmt(matches.length) + ' matches' + (matches.length > LIMIT ? ', showing ' + LIMIT : '');
+    var tbl = el('table');
+    matches.slice(0, LIMIT).forEach(function (s) {
+      var file = D.files[s[3]];
+      var feature = D.features[file[1]];
+      var tr = el('tr');
+      tr.appendChild(el('td', 'kind', KINDS[s[1]]));
+      tr.appendChild(el('td', '', s[2] ? s[2] + '.' + s[0] : s[0]));
+      tr.appendChild(el('td', '', feature ? feature.name : ''));
+      var td = el('td');
+      td.appendChild(sourceLink(file[0], s[4]));
+      tr.appendChild(td);
+      tbl.appendChild(tr);
+    });
+    results.appendChild(tbl);
+  }
+  input.addEventListener('input', function () { clearTimeout(timer); timer = setTimeout(search, 150); });
+  search();
+})();
+`;
+
+export function renderHtmlReport(input: HtmlReportInput): string {
+  const data = buildData(input);
+  const hasChurn = !!input.churnWindow;
+  const title = `Feature Architecture: ${input.repoName}`;
+  const meta = [
+    `Analyzed ${data.analyzedAt}`,
+    `${input.totalSymbols.toLocaleString()} symbols`,
+    `${input.features.filter(f => f.id !== 'uncategorized').length} features`,
+    `${input.coveragePct}% categorized`,
+    ...(hasChurn ? [`Churn: ${input.churnWindow}`] : []),
+  ].join(' · ');
+  // "<" escaped so symbol names can't close the script element
+  const json = JSON.stringify(data).replace(/</g, '\\u003c');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${htmlEscape(title)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<header>
+  <h1>${htmlEscape(title)}</h1>
+  <div class="meta">${htmlEscape(meta)}</div>
+</header>
+<main>
+  <h2>Treemap</h2>
+  <div class="crumbs" id="crumbs"></div>
+  <div id="treemap"></div>
+  <div class="legend">Area = symbols. ${hasChurn
+    ? 'Color = churn (lines added + deleted), log scale: <span style="background:hsl(120,65%,78%)"></span> low → <span style="background:hsl(0,65%,50%)"></span> high.'
+    : 'No churn window given (--since, --until or --rev-range), so boxes are not colored by churn.'} Click a box to zoom in.</div>
+
+  <h2>Features</h2>
+  <div class="scroll" id="features"></div>
+${hasChurn ? `
+  <h2>Hotspot files</h2>
+  <div class="scroll" id="hot-files"></div>
+
+  <h2>Hotspot symbols</h2>
+  <div class="scroll" id="hot-symbols"></div>
+` : ''}
+  <h2>Symbols</h2>
+  <input id="search" type="search" placeholder="Search symbols or files…" autocomplete="off"><span id="search-count"></span>
+  <div class="scroll" id="search-results"></div>
+</main>
+<script type="application/json" id="census-data">${json}</script>
+<script>${SCRIPT}</script>
+</body>
+</html>
+`;
+}
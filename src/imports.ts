@@ -0,0 +1,530 @@
+// ─── Import dependencies ────────────────────────────────────────────────────
+//
+// Parses import statements, resolves them to files in the repo, and rolls
+// the file edges up into a feature → feature graph. Resolution per language:
+//   TS/JS     relative specifiers (with extension and /index probing),
+//             tsconfig/jsconfig `paths` + `baseUrl`, workspace package names
+//   Python    relative imports from the importing package; absolute imports
+//             by dotted-path suffix, preferring the candidate closest to the
+//             importing file
+//   Go        import paths under a go.mod module path → that package's files
+//   Kotlin    imports by declared `package`, preferring the file named after
+//   / Java    the imported class
+//   Rust      crate::, self::, super:: and `mod x;` within a crate, plus
+//             workspace crates by name
+// Third-party imports resolve to nothing and are only counted. Regexes over
+// comment-stripped source are enough here: an occasional miss only thins an
+// edge, it never invents one.
+
+import fs from 'fs';
+import path from 'path';
+import type { WorkspacePackage } from './workspaces';
+
+export interface DependencyEdge {
+  from: string;          // feature id
+  to: string;
+  imports: number;       // import statements from `from` files resolving into `to`
+}
+
+export interface DependedOnFeature {
+  feature: string;
+  dependents: number;    // other features importing it
+  imports: number;
+}
+
+export interface DependencyReport {
+  files: number;         // source files parsed
+  imports: number;       // import statements found
+  resolved: number;      // ...that resolved to a file in the repo
+  edges: DependencyEdge[];       // between different features, heaviest first
+  cycles: string[][];            // groups of features that depend on each other in a loop
+  mostDependedOn: DependedOnFeature[];
+}
+
+export interface DependencyOptions {
+  workspaces?: WorkspacePackage[];
+  top?: number;          // entries in mostDependedOn (default 5)
+}
+
+const JS_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+type Language = 'js' | 'python' | 'go' | 'jvm' | 'rust';
+
+function languageOf(file: string): Language | null {
+  const ext = path.posix.extname(file);
+  if (JS_EXTENSIONS.includes(ext)) return 'js';
+  if (ext === '.py' || ext === '.pyw') return 'python';
+  if (ext === '.go') return 'go';
+  if (ext === '.kt' || ext === '.kts' || ext === '.java') return 'jvm';
+  if (ext === '.rs') return 'rust';
+  return null;
+}
+
+function stripComments(source: string, language: Language): string {
+  if (language === 'python') return source.replace(/#.*$/gm, '');
+  return source.replace(/\/\*[\s\S]*?\*\//g, '').replace(/(^|[^:'"])\/\/.*$/gm, '$1');
+}
+
+function readText(file: string): string | null {
+  try {
+    return fs.readFileSync(file, 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+// ─── Parsing ────────────────────────────────────────────────────────────────
+
+function jsSpecifiers(src: string): string[] {
+  const specs: string[] = [];
+  for (const m of src.matchAll(/\b(?:import|export)\s+(?:type\s+)?(?:[^'"`;]*?\s+from\s+)?['"]([^'"\n]+)['"]/g)) specs.push(m[1]);
+  for (const m of src.matchAll(/\b(?:require|import)\s*\(\s*['"]([^'"\n]+)['"]\s*\)/g)) specs.push(m[1]);
+  return specs;
+}
+
+// Python imports as [module, importedNames]; module keeps its leading dots
+function pythonImports(src: string): [string, string[]][] {
+  const result: [string, string[]][] = [];
+  for (const m of src.matchAll(/^[ \t]*from\s+(\.*[\w.]*)\s+import\s+(\([^)]*\)|[^\n]+)/gm)) {
+    const names = m[2].replace(/[()\\]/g, ' ').split(',').map(n => n.trim().split(/\s+/)[0]).filter(n => /^\w+$/.test(n));
+    result.push([m[1], names]);
+  }
+  for (const m of src.matchAll(/^[ \t]*import\s+([\w.]+(?:\s+as\s+\w+)?(?:\s*,\s*[\w.]+(?:\s+as\s+\w+)?)*)/gm)) {
+    for (const part of m[1].split(',')) result.push([part.trim().split(/\s+/)[0], []]);
+  }
+  return result;
+}
+
+function goImports(src: string): string[] {
+  const specs: string[] = [];
+  for (const block of src.matchAll(/^\s*import\s*\(([\s\S]*?)\)/gm)) {
+    for (const m of block[1].matchAll(/"([^"]+)"/g)) specs.push(m[1]);
+  }
+  for (const m of src.matchAll(/^\s*import\s+(?:[\w.]+\s+)?"([^"]+)"/gm)) specs.push(m[1]);
+  return specs;
+}
+
+function jvmImports(src: string): string[] {
+  return [...src.matchAll(/^\s*import\s+(?:static\s+)?([\w.]+(?:\.\*)?)/gm)].map(m => m[1]);
+}
+
+// `use a::{b, c::D}` → ["a::b", "a::c::D"]; one level of braces is expanded
+function rustUses(src: string): { uses: string[]; mods: string[] } {
+  const uses: string[] = [];
+  for (const m of src.matchAll(/^\s*(?:pub(?:\([^)]*\))?\s+)?use\s+([^;]+);/gm)) {
+    const tree = m[1].replace(/\s+as\s+\w+/g, '').replace(/\s+/g, '');
+    const brace = tree.indexOf('{');
+    if (brace < 0) {
+      uses.push(tree.replace(/::\*$/, ''));
+      continue;
+    }
+    const prefix = tree.slice(0, brace).replace(/::$/, '');
+    const inner = tree.slice(brace + 1, tree.lastIndexOf('}'));
+    let depth = 0;
+    let start = 0;
+    const items: string[] = [];
+    for (let i = 0; i <= inner.length; i++) {
+      const c = inner[i];
+      if (c === '{') depth++;
+      else if (c === '}') depth--;
+      else if ((c === ',' || i === inner.length) && depth === 0) {
+        items.push(inner.slice(start, i));
+        start = i + 1;
+      }
+    }
+    for (const item of items.filter(Boolean)) {
+      const head = item.split('::{')[0].replace(/::\*$/, '');
+      uses.push(head === 'self' ? prefix : `${prefix}::${head}`);
+    }
+  }
+  const mods = [...src.matchAll(/^\s*(?:pub(?:\([^)]*\))?\s+)?mod\s+(\w+)\s*;/gm)].map(m => m[1]);
+  return { uses, mods };
+}
+
+// ─── Resolution ─────────────────────────────────────────────────────────────
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseJsonc(text: string | null): unknown {
+  if (text === null) return null;
+  try {
+    return JSON.parse(text.replace(/\/\*[\s\S]*?\*\//g, '').replace(/(^|[^:"])\/\/.*$/gm, '$1').replace(/,(\s*[}\]])/g, '$1'));
+  } catch {
+    return null;
+  }
+}
+
+function createResolver(repoRoot: string, files: string[], workspaces: WorkspacePackage[]) {
+  const fileSet = new Set(files);
+  const norm = (p: string) => path.posix.normalize(p).replace(/^\.\//, '');
+
+  // ── TS/JS ──
+  const probeJs = (base: string): string | null => {
+    base = norm(base);
+    if (base.startsWith('..')) return null;
+    const candidates = [base];
+    const ext = path.posix.extname(base);
+    // ESM TypeScript imports "./x.js" for x.ts
+    if (['.js', '.jsx', '.mjs', '.cjs'].includes(ext)) {
+      const stem = base.slice(0, -ext.length);
+      candidates.push(...['.ts', '.tsx', '.mts', '.cts'].map(e => stem + e));
+    }
+    candidates.push(...JS_EXTENSIONS.map(e => base + e), ...JS_EXTENSIONS.map(e => `${base}/index${e}`));
+    return candidates.find(c => fileSet.has(c)) ?? null;
+  };
+  const tsconfig = parseJsonc(readText(path.join(repoRoot, 'tsconfig.json'))) || parseJsonc(readText(path.join(repoRoot, 'jsconfig.json')));
+  const compilerOptions = isObject(tsconfig) && isObject(tsconfig.compilerOptions) ? tsconfig.compilerOptions : {};
+  const baseUrl = typeof compilerOptions.baseUrl === 'string' ? compilerOptions.baseUrl : null;
+  // "paths" maps a pattern to its target patterns; anything else is ignored
+  const pathMappings = Object.entries(isObject(compilerOptions.paths) ? compilerOptions.paths : {})
+    .map(([pattern, targets]): [string, string[]] => [pattern, Array.isArray(targets) ? targets.filter((t): t is string => typeof t === 'string') : []]);
+  const nodePackages = workspaces.filter(w => ['npm', 'yarn', 'pnpm'].includes(w.manager));
+
+  const resolveJs = (from: string, spec: string): string[] => {
+    if (spec.startsWith('.')) {
+      const hit = probeJs(path.posix.join(path.posix.dirname(from), spec));
+      return hit ? [hit] : [];
+    }
+    const root = baseUrl ?? '.';
+    for (const [pattern, targets] of pathMappings) {
+      const star = pattern.indexOf('*');
+      const matches = star < 0 ? spec === pattern : spec.startsWith(pattern.slice(0, star)) && spec.endsWith(pattern.slice(star + 1));
+      if (!matches) continue;
+      const captured = star < 0 ? '' : spec.slice(star, spec.length - (pattern.length - star - 1));
+      for (const target of targets) {
+        const hit = probeJs(path.posix.join(root, target.replace('*', captured)));
+        if (hit) return [hit];
+      }
+    }
+    for (const pkg of nodePackages) {
+      if (spec !== pkg.name && !spec.startsWith(pkg.name + '/')) continue;
+      const sub = spec.slice(pkg.name.length + 1);
+      const hit = sub
+        ? probeJs(`${pkg.dir}/src/${sub}`) || probeJs(`${pkg.dir}/${sub}`)
+        : probeJs(`${pkg.dir}/src/index`) || probeJs(`${pkg.dir}/index`);
+      if (hit) return [hit];
+    }
+    if (baseUrl !== null) {
+      const hit = probeJs(path.posix.join(baseUrl, spec));
+      if (hit) return [hit];
+    }
+    return [];
+  };
+
+  // ── Python ──
+  const pyModules = new Map<string, string[]>();   // dotted suffix → files
+  for (const f of files) {
+    if (languageOf(f) !== 'python') continue;
+    const parts = f.replace(/\.pyw?$/, '').split('/');
+    if (parts[parts.length - 1] === '__init__') parts.pop();
+    for (let i = 0; i < parts.length; i++) {
+      const key = parts.slice(i).join('.');
+      if (!pyModules.has(key)) pyModules.set(key, []);
+      pyModules.get(key)!.push(f);
+    }
+  }
+  const sharedPrefix = (a: string, b: string) => {
+    let i = 0;
+    while (i < a.length && a[i] === b[i]) i++;
+    return i;
+  };
+  const probePy = (base: string): string | null =>
+    [`${base}.py`, `${base}/__init__.py`].map(norm).find(c => fileSet.has(c)) ?? null;
+
+  const resolvePython = (from: string, module: string, names: string[]): string[] => {
+    const dots = module.match(/^\.*/)![0].length;
+    const rest = module.slice(dots);
+    if (dots > 0) {
+      let base = path.posix.dirname(from);
+      for (let i = 1; i < dots; i++) base = path.posix.dirname(base);
+      const modBase = rest ? `${base}/${rest.replace(/\./g, '/')}` : base;
+      const byName = names.map(n => probePy(`${modBase}/${n}`)).filter((f): f is string => !!f);
+      if (byName.length > 0) return byName;
+      const hit = rest ? probePy(modBase) : null;
+      return hit ? [hit] : [];
+    }
+    const closest = (key: string) => {
+      const candidates = pyModules.get(key);
+      if (!candidates) return null;
+      return candidates.reduce((best, c) => (sharedPrefix(c, from) > sharedPrefix(best, from) ? c : best));
+    };
+    const byName = names.map(n => closest(`${rest}.${n}`)).filter((f): f is string => !!f);
+    if (byName.length > 0) return byName;
+    const hit = closest(rest);
+    return hit ? [hit] : [];
+  };
+
+  // ── Go ──
+  const goMods: { module: string; dir: string }[] = [];
+  const rootGoMod = readText(path.join(repoRoot, 'go.mod'))?.match(/^module\s+(\S+)/m)?.[1];
+  if (rootGoMod) goMods.push({ module: rootGoMod, dir: '' });
+  for (const w of workspaces) if (w.manager === 'go') goMods.push({ module: w.name, dir: w.dir });
+  goMods.sort((a, b) => b.module.length - a.module.length);
+  const goFilesByDir = new Map<string, string[]>();
+  for (const f of files) {
+    if (languageOf(f) !== 'go') continue;
+    const dir = path.posix.dirname(f);
+    if (!goFilesByDir.has(dir)) goFilesByDir.set(dir, []);
+    goFilesByDir.get(dir)!.push(f);
+  }
+  const resolveGo = (spec: string): string[] => {
+    const mod = goMods.find(m => spec === m.module || spec.startsWith(m.module + '/'));
+    if (!mod) return [];
+    const dir = norm(path.posix.join(mod.dir || '.', spec.slice(mod.module.length + 1))) || '.';
+    return goFilesByDir.get(dir) || [];
+  };
+
+  // ── Kotlin / Java ──
+  const jvmPackages = new Map<string, string[]>();
+  const jvmFiles = files.filter(f => languageOf(f) === 'jvm');
+  const indexJvm = (f: string, src: string) => {
+    const pkg = src.match(/^\s*package\s+([\w.]+)/m)?.[1] || '';
+    if (!jvmPackages.has(pkg)) jvmPackages.set(pkg, []);
+    jvmPackages.get(pkg)!.push(f);
+  };
+  const resolveJvm = (spec: string): string[] => {
+    const parts = spec.replace(/\.\*$/, '').split('.');
+    const wildcard = spec.endsWith('.*');
+    for (let i = parts.length - (wildcard ? 0 : 1); i > 0; i--) {
+      const inPackage = jvmPackages.get(parts.slice(0, i).join('.'));
+      if (!inPackage) continue;
+      if (wildcard && i === parts.length) return inPackage;
+      const named = inPackage.filter(f => path.posix.basename(f).replace(/\.\w+$/, '') === parts[i]);
+      return named.length > 0 ? named : inPackage;
+    }
+    return [];
+  };
+
+  // ── Rust ──
+  const crateRoots = new Map<string, string>();   // file's dir → crate src dir
+  const crateSrcOf = (file: string): string | null => {
+    let dir = path.posix.dirname(file);
+    const seen: string[] = [];
+    while (true) {
+      if (crateRoots.has(dir)) break;
+      seen.push(dir);
+      if (fs.existsSync(path.join(repoRoot, dir, 'Cargo.toml'))) {
+        crateRoots.set(dir, dir === '.' ? 'src' : `${dir}/src`);
+        break;
+      }
+      if (dir === '.' || dir === '') {
+        crateRoots.set(dir, '');
+        break;
+      }
+      dir = path.posix.dirname(dir);
+    }
+    const root = crateRoots.get(dir)!;
+    for (const d of seen) crateRoots.set(d, root);
+    return root || null;
+  };
+  const workspaceCrates = new Map(
+    workspaces.filter(w => w.manager === 'cargo').map(w => [w.name.replace(/-/g, '_'), `${w.dir}/src`]),
+  );
+  const probeRust = (base: string, segments: string[]): string | null => {
+    for (let n = segments.length; n > 0; n--) {
+      const p = `${base}/${segments.slice(0, n).join('/')}`;
+      const hit = [`${p}.rs`, `${p}/mod.rs`].map(norm).find(c => fileSet.has(c));
+      if (hit) return hit;
+    }
+    return null;
+  };
+  const resolveRust = (from: string, use: string): string[] => {
+    const segments = use.split('::').filter(Boolean);
+    const isModRoot = /(^|\/)(mod|lib|main)\.rs$/.test(from);
+    const selfDir = isModRoot ? path.posix.dirname(from) : from.replace(/\.rs$/, '');
+    let base: string | null;
+    if (segments[0] === 'crate') {
+      base = crateSrcOf(from);
+      segments.shift();
+    } else if (segments[0] === 'self') {
+      base = selfDir;
+      segments.shift();
+    } else if (segments[0] === 'super') {
+      base = path.posix.dirname(selfDir);
+      segments.shift();
+      while (segments[0] === 'super') {
+        base = path.posix.dirname(base);
+        segments.shift();
+      }
+    } else if (workspaceCrates.has(segments[0])) {
+      base = workspaceCrates.get(segments.shift()!)!;
+    } else {
+      return [];
+    }
+    if (!base) return [];
+    if (segments.length === 0) {
+      const root = [`${base}/lib.rs`, `${base}/mod.rs`].map(norm).find(c => fileSet.has(c));
+      return root ? [root] : [];
+    }
+    const hit = probeRust(base, segments);
+    return hit ? [hit] : [];
+  };
+  const resolveRustMod = (from: string, mod: string): string[] => {
+    const isModRoot = /(^|\/)(mod|lib|main)\.rs$/.test(from);
+    const selfDir = isModRoot ? path.posix.dirname(from) : from.replace(/\.rs$/, '');
+    const hit = probeRust(selfDir, [mod]);
+    return hit ? [hit] : [];
+  };
+
+  return { resolveJs, resolvePython, resolveGo, resolveJvm, indexJvm, jvmFiles, resolveRust, resolveRustMod };
+}
+
+// ─── Graph ──────────────────────────────────────────────────────────────────
+
+// Strongly connected components with more than one feature (Tarjan)
+function findCycles(nodes: string[], edges: DependencyEdge[]): string[][] {
+  const out = new Map<string, string[]>(nodes.map(n => [n, []]));
+  for (const e of edges) out.get(e.from)?.push(e.to);
+  let counter = 0;
+  const index = new Map<string, number>();
+  const low = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+
+  const visit = (v: string) => {
+    index.set(v, counter);
+    low.set(v, counter);
+    counter++;
+    stack.push(v);
+    onStack.add(v);
+    for (const w of out.get(v) || []) {
+      if (!index.has(w)) {
+        visit(w);
+        low.set(v, Math.min(low.get(v)!, low.get(w)!));
+      } else if (onStack.has(w)) {
+        low.set(v, Math.min(low.get(v)!, index.get(w)!));
+      }
+    }
+    if (low.get(v) === index.get(v)) {
+      const component: string[] = [];
+      let w: string;
+      do {
+        w = stack.pop()!;
+        onStack.delete(w);
+        component.push(w);
+      } while (w !== v);
+      if (component.length > 1) components.push(component.sort());
+    }
+  };
+  for (const n of nodes) if (!index.has(n)) visit(n);
+  return components.sort((a, b) => b.length - a.length || a[0].localeCompare(b[0]));
+}
+
+/**
+ * Parses imports in `files` (relative to `repoRoot`) and aggregates them by
+ * feature. Imports within one feature, and any involving uncategorized
+ * files, are counted but left out of the graph.
+ */
+export function analyzeDependencies(
+  repoRoot: string,
+  files: string[],
+  classify: (path: string) => string,
+  options: DependencyOptions = {},
+): DependencyReport {
+  const sources = new Map<string, string>();
+  for (const f of files) {
+    const language = languageOf(f);
+    if (!language) continue;
+    const text = readText(path.join(repoRoot, f));
+    if (text !== null) sources.set(f, stripComments(text, language));
+  }
+  const parsed = [...sources.keys()];
+  const resolver = createResolver(repoRoot, parsed, options.workspaces || []);
+  for (const f of resolver.jvmFiles) resolver.indexJvm(f, sources.get(f)!);
+
+  let imports = 0;
+  let resolved = 0;
+  const weights = new Map<string, number>();
+  for (const [file, src] of sources) {
+    const targets: string[][] = [];
+    switch (languageOf(file)) {
+      case 'js':
+        for (const spec of jsSpecifiers(src)) targets.push(resolver.resolveJs(file, spec));
+        break;
+      case 'python':
+        for (const [module, names] of pythonImports(src)) targets.push(resolver.resolvePython(file, module, names));
+        break;
+      case 'go':
+        for (const spec of goImports(src)) targets.push(resolver.resolveGo(spec));
+        break;
+      case 'jvm':
+        for (const spec of jvmImports(src)) targets.push(resolver.resolveJvm(spec));
+        break;
+      case 'rust': {
+        const { uses, mods } = rustUses(src);
+        for (const use of uses) targets.push(resolver.resolveRust(file, use));
+        for (const mod of mods) targets.push(resolver.resolveRustMod(file, mod));
+        break;
+      }
+    }
+
+    const from = classify(file);
+    for (const hit of targets) {
+      imports++;
+      if (hit.length === 0) continue;
+      resolved++;
+      if (from === 'uncategorized') continue;
+      // An import resolving to several files (a Go package) counts once per feature
+      for (const to of new Set(hit.map(classify))) {
+        if (to === from || to === 'uncategorized') continue;
+        const key = `${from}\0${to}`;
+        weights.set(key, (weights.get(key) || 0) + 1);
+      }
+    }
+  }
+
+  const edges: DependencyEdge[] = [...weights.entries()]
+    .map(([key, n]) => {
+      const [from, to] = key.split('\0');
+      return { from, to, imports: n };
+    })
+    .sort((a, b) => b.imports - a.imports || a.from.localeCompare(b.from) || a.to.localeCompare(b.to));
+
+  const nodes = [...new Set(edges.flatMap(e => [e.from, e.to]))].sort();
+  const inbound = new Map<string, DependedOnFeature>();
+  for (const e of edges) {
+    const entry = inbound.get(e.to) || { feature: e.to, dependents: 0, imports: 0 };
+    entry.dependents++;
+    entry.imports += e.imports;
+    inbound.set(e.to, entry);
+  }
+
+  return {
+    files: parsed.length,
+    imports,
+    resolved,
+    edges,
+    cycles: findCycles(nodes, edges),
+    mostDependedOn: [...inbound.values()]
+      .sort((a, b) => b.dependents - a.dependents || b.imports - a.imports)
+      .slice(0, options.top ?? 5),
+  };
+}
+
+/** Graphviz DOT for the feature graph; edges inside a cycle are drawn red. */
+export function renderDependencyDot(report: DependencyReport, names: Map<string, string>, title: string): string {
+  const quote = (s: string) => `"${s.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  const inCycle = new Map<string, number>();
+  report.cycles.forEach((cycle, i) => cycle.forEach(id => inCycle.set(id, i)));
+  const maxImports = Math.max(1, ...report.edges.map(e => e.imports));
+  const nodes = [...new Set(report.edges.flatMap(e => [e.from, e.to]))].sort();
+
+  const lines: string[] = [];
+  lines.push(`digraph ${quote(title)} {`);
+  lines.push('  rankdir=LR;');
+  lines.push('  node [shape=box, style=rounded, fontname="Helvetica"];');
+  lines.push('  edge [fontname="Helvetica", fontsize=10];');
+  for (const id of nodes) {
+    lines.push(`  ${quote(id)} [label=${quote(names.get(id) || id)}${inCycle.has(id) ? ', color=red' : ''}];`);
+  }
+  for (const e of report.edges) {
+    const cyclic = inCycle.has(e.from) && inCycle.get(e.from) === inCycle.get(e.to);
+    const width = (1 + (3 * e.imports) / maxImports).toFixed(1);
+    lines.push(`  ${quote(e.from)} -> ${quote(e.to)} [label="${e.imports}", penwidth=${width}${cyclic ? ', color=red' : ''}];`);
+  }
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,33 @@
+// ─── Package entry ───────────────────────────────────────────────────────────
+//
+// What `import ... from '@manzoid2/repo-feature-check'` gets: the library API
+// from api.ts, the renderers the CLI uses, and the shared types. The CLI
+// itself (census.ts) is not imported, so loading the package has no side
+// effects.
+
+export {
+  extractSymbols, filterSymbols, classifySymbols, getChurn, aggregateFeatures, runCensus, runHistory, toSnapshot, EXTRACTORS,
+  type Extractor, type LogOptions, type ExtractOptions, type FilterOptions, type ClassifyOptions, type ClassifyResult,
+  type ChurnOptions, type ChurnResult, type AggregateOptions, type CensusOptions, type CensusResult,
+  type HistoryOptions,
+} from './api';
+export { loadConfig, validateConfig, type LoadedConfig } from './config';
+export { createClassifier, type Classifier, type Classification, type RuleOverlap } from './classify';
+export { loadAssignments, createAssignedClassifier, buildAssignments, writeAssignments, type AssignedClassifier } from './assignments';
+export { loadSnapshot, diffSnapshots, renderDiffText, renderDiffMarkdown } from './diff';
+export { evaluateThresholds, renderJUnit, renderSarif, type Check, type CheckResult } from './check';
+export { renderMarkdownReport, type MarkdownReportInput } from './markdown';
+export { renderHtmlReport, type HtmlReportInput } from './html';
+export { resolveRef, periodicRefs, renderHistoryText, renderHistoryMarkdown } from './history';
+export { loadCodeowners, parseCodeowners, createCodeowners, type Codeowners, type CodeownersRule } from './codeowners';
+export { createSubFeatureClassifier, autoBreakdown } from './subfeatures';
+export { proposeConfig } from './init';
+export { defaultCacheDir } from './cache';
+export { LANGUAGES } from './languages';
+export type { ChurnWindow, CommitRecord } from './churn';
+export type { CouplingReport } from './coupling';
+export type { DependencyReport } from './imports';
+export type { TrendInterval } from './trends';
+export type { TestMapping } from './test-map';
+export type { WorkspacePackage } from './workspaces';
+export type * from './types';
@@ -0,0 +1,274 @@
+// ─── Starter config proposal (init) ─────────────────────────────────────────
+//
+// Drafts a FeatureConfig from extracted symbols:
+//   1. Generated and vendored code is detected by directory name, file name
+//      pattern, or a "generated" marker near the top of the file, and proposed
+//      as excludePaths.
+//   2. Each file is keyed by its first "meaningful" path segment, skipping
+//      structural directories (src, main, components, com/<org>, ...) and any
+//      top-level directory that wraps most of the repo.
+//   3. Files sitting directly in a structural directory are keyed by the
+//      leading word of their name instead (PaymentService.kt → payment).
+//   4. Keys are normalized (case, separators, plural "s"), so /course/ and
+//      /courses/ land in one feature, and small clusters are dropped.
+// The result is a starting point to edit, not a finished taxonomy.
+
+import fs from 'fs';
+import path from 'path';
+import type { FeatureConfig, FeatureRule, Symbol } from './types';
+import { createClassifier } from './classify';
+
+export interface InitOptions {
+  minSymbols?: number;    // smallest cluster kept as a feature (default: 0.2% of symbols, at least 3)
+  maxFeatures?: number;   // default 40
+}
+
+export interface InitProposal {
+  config: FeatureConfig;
+  coverage: number;       // % of (non-excluded) symbols the draft classifies
+  excluded: { pattern: string; directory: boolean; reason: string; symbols: number }[];
+}
+
+const STRUCTURAL_SEGMENTS = new Set([
+  'src', 'source', 'lib', 'libs', 'app', 'apps', 'packages', 'pkg', 'internal', 'cmd', 'main',
+  'java', 'kotlin', 'scala', 'python', 'go', 'ts', 'js', 'com', 'org', 'net', 'io',
+  'components', 'component', 'pages', 'features', 'feature', 'modules', 'module', 'domain', 'domains',
+  'services', 'service', 'server', 'client', 'web', 'frontend', 'backend', 'front', 'back',
+  'api', 'ui', 'screens', 'routes', 'views', 'controllers', 'models', 'containers', 'store', 'stores',
+]);
+
+// Reverse-DNS package roots are followed by an organization name
+const PACKAGE_ROOTS = new Set(['com', 'org', 'net', 'io']);
+
+const INFRA_KEYS = new Set([
+  'util', 'utils', 'helper', 'common', 'shared', 'core', 'config', 'hook', 'type', 'lib',
+  'infra', 'infrastructure', 'middleware', 'log', 'logging', 'test', 'testing', 'mock', 'fixture',
+  'constant', 'style', 'theme', 'icon', 'asset', 'layout', 'i18n', 'locale', 'db', 'database', 'migration',
+]);
+
+// Words that describe a role, not a feature: PaymentService → Payment
+const ROLE_WORDS = new Set([
+  'service', 'controller', 'manager', 'repository', 'repo', 'impl', 'util', 'utils', 'helper', 'helpers',
+  'component', 'view', 'screen', 'page', 'factory', 'provider', 'handler', 'store', 'model', 'dto',
+  'api', 'client', 'config', 'module', 'base', 'abstract', 'default', 'index', 'main', 'use', 'get', 'create',
+]);
+
+const GENERATED_DIRS = new Set([
+  'generated', '__generated__', 'gen', 'codegen', 'vendor', 'vendored', 'third_party', 'third-party',
+  'thirdparty', 'external', 'bower_components', 'Pods',
+]);
+
+const GENERATED_FILE_PATTERNS: [RegExp, string][] = [
+  [/\.generated\.\w+$/, '*.generated.*'],
+  [/\.pb\.go$/, '*.pb.go'],
+  [/_pb2(_grpc)?\.py$/, '*_pb2*.py'],
+  [/\.min\.js$/, '*.min.js'],
+  [/\.g\.dart$/, '*.g.dart'],
+];
+
+const GENERATED_MARKER = /@generated|Code generated .* DO NOT EDIT|auto-?generated|This file (?:was|is) generated/i;
+
+function words(name: string): string[] {
+  return name
+    .replace(/\.[^.]+$/, '')
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[\s_\-.]+/)
+    .filter(Boolean);
+}
+
+/** Cluster key: lowercase, no separators, trailing plural "s" dropped. */
+function normalizeKey(segment: string): string {
+  const flat = segment.toLowerCase().replace(/[-_\s]/g, '');
+  return flat.length > 3 && flat.endsWith('s') && !flat.endsWith('ss') ? flat.slice(0, -1) : flat;
+}
+
+function toId(variant: string): string {
+  return words(variant).map(w => w.toLowerCase()).join('-');
+}
+
+function toName(variant: string): string {
+  return words(variant).map(w => w[0].toUpperCase() + w.slice(1)).join(' ');
+}
+
+// Generated/vendored exclusions, with the number of symbols each removes
+function detectGenerated(symbols: Symbol[], repoRoot: string): InitProposal['excluded'] {
+  const found = new Map<string, { directory: boolean; reason: string; files: Set<string> }>();
+  const note = (pattern: string, directory: boolean, reason: string, file: string) => {
+    if (!found.has(pattern)) found.set(pattern, { directory, reason, files: new Set() });
+    found.get(pattern)!.files.add(file);
+  };
+
+  const files = [...new Set(symbols.map(s => s.file))];
+  const markedByDir = new Map<string, { marked: number; total: number }>();
+  for (const file of files) {
+    const segments = file.split('/');
+    const dir = segments.slice(0, -1).find(seg => GENERATED_DIRS.has(seg));
+    if (dir) {
+      note(dir, true, 'generated/vendored directory name', file);
+      continue;
+    }
+    const byName = GENERATED_FILE_PATTERNS.find(([re]) => re.test(file));
+    if (byName) {
+      note(byName[1], false, 'generated file name', file);
+      continue;
+    }
+
+    let head = '';
+    try {
+      const fd = fs.openSync(path.join(repoRoot, file), 'r');
+      const buf = Buffer.alloc(1024);
+      const n = fs.readSync(fd, buf, 0, buf.length, 0);
+      fs.closeSync(fd);
+      head = buf.toString('utf-8', 0, n);
+    } catch {}
+    const parent = path.posix.dirname(file);
+    const stats = markedByDir.get(parent) || { marked: 0, total: 0 };
+    stats.total++;
+    if (GENERATED_MARKER.test(head)) {
+      stats.marked++;
+      note(`\0${file}`, false, 'generated marker in file header', file);
+    }
+    markedByDir.set(parent, stats);
+  }
+
+  // Collapse marked files into their directory when the whole directory is generated
+  for (const [key, entry] of [...found]) {
+    if (!key.startsWith('\0')) continue;
+    const file = key.slice(1);
+    const parent = path.posix.dirname(file);
+    const stats = markedByDir.get(parent)!;
+    found.delete(key);
+    // Repo-relative paths: a bare name would exclude every same-named file or directory
+    if (parent !== '.' && stats.total >= 2 && stats.marked === stats.total) {
+      note(parent, true, entry.reason, file);
+    } else {
+      note(file, false, entry.reason, file);
+    }
+  }
+
+  return [...found.entries()]
+    .map(([pattern, { directory, reason, files: hit }]) => ({
+      pattern,
+      directory,
+      reason,
+      symbols: symbols.filter(s => hit.has(s.file)).length,
+    }))
+    .sort((a, b) => b.symbols - a.symbols);
+}
+
+// First meaningful segment of a file's directory path (and its depth), or null
+function featureSegment(file: string, wrappers: Set<string>): { seg: string; depth: number } | null {
+  const dirs = file.split('/').slice(0, -1);
+  for (let i = 0; i < dirs.length; i++) {
+    const seg = dirs[i];
+    if (STRUCTURAL_SEGMENTS.has(seg.toLowerCase()) || wrappers.has(`${i}:${seg}`)) {
+      if (PACKAGE_ROOTS.has(seg.toLowerCase())) i++;
+      continue;
+    }
+    if (seg.startsWith('.') || /^\d/.test(seg)) continue;
+    return { seg, depth: i };
+  }
+  return null;
+}
+
+function nameToken(file: string): string | null {
+  const meaningful = words(path.posix.basename(file)).filter(w => !ROLE_WORDS.has(w.toLowerCase()));
+  return meaningful.length > 0 && meaningful[0].length > 2 ? meaningful[0] : null;
+}
+
+export function proposeConfig(symbols: Symbol[], repoRoot: string, options: InitOptions = {}): InitProposal {
+  const excluded = detectGenerated(symbols, repoRoot);
+  const isExcluded = createClassifier([{ id: 'x', name: 'x', category: 'x', paths: excluded.map(e => e.directory ? `/${e.pattern}/` : `glob:${e.pattern}`) }]);
+  const kept = excluded.length > 0 ? symbols.filter(s => isExcluded.classify(s.file).id === 'uncategorized') : symbols;
+
+  // Directories at a given depth that wrap more than half the repo are
+  // project wrappers (e.g. "acme-backend/"), not features
+  const wrappers = new Set<string>();
+  for (let round = 0; round < 4; round++) {
+    const counts = new Map<string, number>();
+    for (const s of kept) {
+      const found = featureSegment(s.file, wrappers);
+      if (!found) continue;
+      const key = `${found.depth}:${found.seg}`;
+      counts.set(key, (counts.get(key) || 0) + 1);
+    }
+    const [top] = [...counts.entries()].sort((a, b) => b[1] - a[1]);
+    if (!top || top[1] <= kept.length * 0.5) break;
+    wrappers.add(top[0]);
+  }
+
+  interface Cluster { variants: Map<string, number>; dirVariants: Set<string>; nameVariants: Set<string>; symbols: number }
+  const clusters = new Map<string, Cluster>();
+  const cluster = (key: string) => {
+    if (!clusters.has(key)) clusters.set(key, { variants: new Map(), dirVariants: new Set(), nameVariants: new Set(), symbols: 0 });
+    return clusters.get(key)!;
+  };
+
+  const pendingByName: { token: string; count: number }[] = [];
+  const perFile = new Map<string, number>();
+  for (const s of kept) perFile.set(s.file, (perFile.get(s.file) || 0) + 1);
+  for (const [file, count] of perFile) {
+    const seg = featureSegment(file, wrappers)?.seg;
+    if (seg) {
+      const c = cluster(normalizeKey(seg));
+      c.variants.set(seg, (c.variants.get(seg) || 0) + count);
+      c.dirVariants.add(seg);
+      c.symbols += count;
+      continue;
+    }
+    const token = nameToken(file);
+    if (token) pendingByName.push({ token, count });
+  }
+  // Name-token files join a directory cluster with the same key, or form their own
+  for (const { token, count } of pendingByName) {
+    const c = cluster(normalizeKey(token));
+    c.variants.set(token, (c.variants.get(token) || 0) + count);
+    c.nameVariants.add(token);
+    c.symbols += count;
+  }
+
+  const minSymbols = options.minSymbols ?? Math.max(3, Math.ceil(kept.length * 0.002));
+  const maxFeatures = options.maxFeatures ?? 40;
+  const features: FeatureRule[] = [...clusters.entries()]
+    .filter(([, c]) => c.symbols >= minSymbols)
+    .sort((a, b) => b[1].symbols - a[1].symbols)
+    .slice(0, maxFeatures)
+    .map(([key, c]) => {
+      const [primary] = [...c.variants.entries()].sort((a, b) => b[1] - a[1])[0];
+      return {
+        id: toId(primary),
+        name: toName(primary),
+        category: INFRA_KEYS.has(key) ? 'Infrastructure' : 'Product',
+        paths: [
+          ...[...c.dirVariants].sort().map(v => `/${v}/`),
+          ...[...c.nameVariants].sort().map(v => `${v}*`),
+        ],
+      };
+    });
+
+  // Ids must be unique even when two keys title-case the same way
+  const usedIds = new Set<string>();
+  for (const f of features) {
+    let id = f.id;
+    for (let n = 2; usedIds.has(id); n++) id = `${f.id}-${n}`;
+    f.id = id;
+    usedIds.add(id);
+  }
+
+  const classifier = createClassifier(features);
+  const categorized = kept.filter(s => classifier.classify(s.file, s).id !== 'uncategorized').length;
+  const coverage = kept.length > 0 ? Math.round((categorized / kept.length) * 1000) / 10 : 0;
+
+  return {
+    config: {
+      name: path.basename(repoRoot),
+      description: `Draft generated by repo-feature-check init; estimated coverage ${coverage}%. Review names, categories and paths.`,
+      excludePaths: excluded.map(e => e.pattern),
+      excludeChurn: excluded.map(e => e.directory ? `${e.pattern}/` : e.pattern.replace(/^\*/, '').replace(/\*.*$/, '')),
+      features,
+    },
+    coverage,
+    excluded,
+  };
+}
@@ -0,0 +1,163 @@
+// ─── Languages and kind mapping ─────────────────────────────────────────────
+//
+// One entry per ctags language: the file extensions to list, the ctags kinds
+// to request, and how each ctags kind name maps onto our three symbol kinds.
+// Kind names differ by parser (Python methods are "member", Ruby's are
+// "method" and "singletonMethod", PHP and C++ report methods as "function"
+// scoped to a class), so the mapping is per language. A mapped function whose
+// scope kind maps to a class becomes a method. Configs can add languages or
+// override kinds through `languages`; see mergeLanguages().
+
+import path from 'path';
+import type { LanguageConfig, LanguageReport, Symbol } from './types';
+
+// "component": a constant kept as a function only when it looks like a React
+// component or hook (see filterSymbols)
+export type MappedKind = Symbol['kind'] | 'component';
+
+export interface LanguageSpec {
+  extensions: string[];                // files listed for ctags and the cache
+  kinds: Record<string, MappedKind>;   // ctags kind name → symbol kind; others are dropped
+  ctagsKinds?: string;                 // --kinds-<lang> letters; the parser's defaults when absent
+  define?: string[];                   // ctags options defining the language when ctags has no parser for it
+}
+
+const SWIFT_DECL = '^[[:blank:]]*(@[A-Za-z]+[[:blank:]]+)*((public|private|internal|fileprivate|open|final|static|override|mutating|nonisolated)[[:blank:]]+)*';
+
+export const LANGUAGES: Record<string, LanguageSpec> = {
+  TypeScript: {
+    extensions: ['.ts', '.tsx', '.mts', '.cts'],
+    kinds: { function: 'function', generator: 'function', method: 'method', class: 'class', constant: 'component' },
+    ctagsKinds: 'fcmgM',   // function, class, constant(component), method, generator
+  },
+  JavaScript: {
+    extensions: ['.js', '.jsx', '.mjs', '.cjs'],
+    kinds: { function: 'function', generator: 'function', method: 'method', class: 'class', constant: 'component' },
+    ctagsKinds: 'fcmgM',
+  },
+  Kotlin: {
+    extensions: ['.kt', '.kts'],
+    kinds: { method: 'method', class: 'class', object: 'class', constant: 'component' },
+    ctagsKinds: 'cfmoC',   // class, function, method, object, constant
+  },
+  Python: {
+    extensions: ['.py', '.pyw'],
+    kinds: { function: 'function', member: 'method', class: 'class' },
+    ctagsKinds: 'cfm',     // class, function, method/member
+  },
+  Go: {
+    extensions: ['.go'],
+    kinds: { func: 'function', struct: 'class' },
+    ctagsKinds: 'ftsm',    // function, type, struct, method
+  },
+  Rust: {
+    extensions: ['.rs'],
+    kinds: { function: 'function', method: 'method', struct: 'class' },
+    ctagsKinds: 'fsPtm',   // function, struct, impl, trait, method
+  },
+  Java: {
+    extensions: ['.java'],
+    kinds: { method: 'method', class: 'class' },
+    ctagsKinds: 'cmi',     // class, method, interface
+  },
+  'C#': {
+    extensions: ['.cs'],
+    kinds: { method: 'method', class: 'class', struct: 'class' },
+    ctagsKinds: 'cms',     // class, method, struct
+  },
+  C: {
+    extensions: ['.c', '.h'],
+    kinds: { function: 'function' },
+    ctagsKinds: 'f',       // function definitions (not prototypes)
+  },
+  'C++': {
+    extensions: ['.cc', '.cpp', '.cxx', '.c++', '.hh', '.hpp', '.hxx', '.h++'],
+    kinds: { function: 'function', class: 'class', struct: 'class' },
+    ctagsKinds: 'cfs',     // class, function (incl. out-of-line methods), struct
+  },
+  Ruby: {
+    extensions: ['.rb', '.rake'],
+    kinds: { method: 'method', singletonMethod: 'method', class: 'class' },
+    ctagsKinds: 'cfS',     // class, method, singleton method
+  },
+  PHP: {
+    extensions: ['.php'],
+    kinds: { function: 'function', method: 'method', class: 'class' },
+    ctagsKinds: 'cf',      // class, function (methods are functions scoped to a class)
+  },
+  // Universal Ctags has no Swift parser; this regex definition finds type and
+  // func declarations. Indented funcs are taken to be methods.
+  Swift: {
+    extensions: ['.swift'],
+    kinds: { function: 'function', method: 'method', class: 'class', struct: 'class' },
+    define: [
+      '--langdef=Swift',
+      '--map-Swift=+.swift',
+      '--kinddef-Swift=c,class,classes',
+      '--kinddef-Swift=s,struct,structures',
+      '--kinddef-Swift=f,function,functions',
+      '--kinddef-Swift=m,method,methods',
+      `--regex-Swift=/${SWIFT_DECL}(class|actor)[[:blank:]]+([A-Za-z_][A-Za-z0-9_]*)[[:blank:]]*[:{<]/\\5/c/`,
+      `--regex-Swift=/${SWIFT_DECL}struct[[:blank:]]+([A-Za-z_][A-Za-z0-9_]*)[[:blank:]]*[:{<]/\\4/s/`,
+      `--regex-Swift=/^((public|private|internal|fileprivate|open|final)[[:blank:]]+)*func[[:blank:]]+([A-Za-z_][A-Za-z0-9_]*)/\\3/f/`,
+      `--regex-Swift=/^[[:blank:]]+(@[A-Za-z]+[[:blank:]]+)*((public|private|internal|fileprivate|open|final|static|class|override|mutating|nonisolated)[[:blank:]]+)*func[[:blank:]]+([A-Za-z_][A-Za-z0-9_]*)/\\4/m/`,
+    ],
+  },
+};
+
+/**
+ * Layers config `languages` over the built-in table. For a known language,
+ * extensions are added and kinds merged (null drops a built-in mapping); a
+ * new language needs extensions and kinds.
+ */
+export function mergeLanguages(overrides: Record<string, LanguageConfig> | undefined): Record<string, LanguageSpec> {
+  const merged: Record<string, LanguageSpec> = { ...LANGUAGES };
+  for (const [name, override] of Object.entries(overrides || {})) {
+    const base = merged[name] || { extensions: [], kinds: {} };
+    const kinds: Record<string, MappedKind> = { ...base.kinds };
+    for (const [kind, mapped] of Object.entries(override.kinds || {})) {
+      if (mapped === null) delete kinds[kind];
+      else kinds[kind] = mapped;
+    }
+    merged[name] = {
+      extensions: [...new Set([...base.extensions, ...(override.extensions || [])])],
+      kinds,
+      ctagsKinds: override.ctagsKinds ?? base.ctagsKinds,
+      define: override.define ?? base.define,
+    };
+  }
+  return merged;
+}
+
+/** Every extension any language covers, for listing files without -R. */
+export function languageExtensions(languages: Record<string, LanguageSpec>): string[] {
+  return [...new Set(Object.values(languages).flatMap(l => l.extensions))];
+}
+
+/** Language whose extensions include the file's, or undefined. */
+export function languageOfFile(languages: Record<string, LanguageSpec>, file: string): string | undefined {
+  const ext = path.extname(file).toLowerCase();
+  return Object.keys(languages).find(name => languages[name].extensions.includes(ext));
+}
+
+/** Symbol counts per language, largest first. */
+export function aggregateLanguages(symbols: Symbol[]): LanguageReport[] {
+  const reports = new Map<string, LanguageReport & { fileSet: Set<string> }>();
+  for (const sym of symbols) {
+    const language = sym.language || 'unknown';
+    let report = reports.get(language);
+    if (!report) {
+      report = { language, files: 0, functions: 0, methods: 0, classes: 0, total: 0, features: {}, fileSet: new Set() };
+      reports.set(language, report);
+    }
+    if (sym.kind === 'function') report.functions++;
+    else if (sym.kind === 'method') report.methods++;
+    else if (sym.kind === 'class') report.classes++;
+    report.total++;
+    report.fileSet.add(sym.file);
+    report.features[sym.feature] = (report.features[sym.feature] || 0) + 1;
+  }
+  return [...reports.values()]
+    .map(({ fileSet, ...report }) => ({ ...report, files: fileSet.size }))
+    .sort((a, b) => b.total - a.total);
+}
@@ -0,0 +1,419 @@
+// ─── Markdown report ─────────────────────────────────────────────────────────
+//
+// Renders the census as markdown pipe tables following report-template.md,
+// so the Feature Map and hotspot tables can be committed and diffed without
+// an AI pass. Sections that need human judgement (Cross-Cutting Concerns,
+// Architectural Observations) are left to the template.
+
+import type { AssignmentSummary, FeatureReport, FileMetrics, GitRef, HotFile, HotSymbol, LanguageReport, OwnershipSummary, SizedSymbol, TestSummary, UnusedSummary } from './types';
+import type { CouplingReport } from './coupling';
+import type { DependencyReport } from './imports';
+import { sparkline } from './trends';
+import { MANY_OWNERS } from './codeowners';
+import { flattenSubFeatures } from './subfeatures';
+import { MEGA_FILE_LINES, MEGA_FILE_SYMBOLS } from './metrics';
+
+export type HotspotBucket = 'LOW' | 'MED' | 'HIGH';
+
+export interface MarkdownReportInput {
+  repoName: string;
+  analyzedAt: Date;
+  at?: GitRef | null;          // with --at: the commit analyzed
+  churnWindow: string | null;  // described churn window, null without churn
+  totalSymbols: number;
+  coveragePct: string;
+  features: FeatureReport[];   // already sorted for display
+  hotFiles: HotFile[];         // sorted by churn, descending
+  hotSymbols: HotSymbol[];     // sorted by churn, descending
+  coupling?: CouplingReport | null;
+  interval?: string | null;    // with --interval: week, month or quarter
+  dependencies?: DependencyReport | null;
+  languages?: LanguageReport[];
+  tests?: TestSummary | null;  // with --tests
+  unused?: UnusedSummary | null;  // with --unused
+  assignments?: AssignmentSummary | null;  // with --assignments
+  codeowners?: OwnershipSummary | null;    // when the repo has a CODEOWNERS file
+  largestSymbols?: SizedSymbol[];
+  megaFiles?: FileMetrics[];
+  riskiestFiles?: FileMetrics[];  // with churn: sorted by lines × commits
+}
+
+/**
+ * Buckets a hotspot score relative to the hottest feature in the same run:
+ * HIGH at half the max score or above, MED at 15% or above, LOW otherwise.
+ */
+export function hotspotBucket(score: number | undefined, maxScore: number): HotspotBucket | null {
+  if (!score || maxScore <= 0) return null;
+  const ratio = score / maxScore;
+  if (ratio >= 0.5) return 'HIGH';
+  if (ratio >= 0.15) return 'MED';
+  return 'LOW';
+}
+
+/** Escapes a table cell: pipe characters and line breaks would split the row. */
+export function cell(value: string | number): string {
+  return String(value).replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+function row(cells: (string | number)[]): string {
+  return `| ${cells.map(c => cell(String(c))).join(' | ')} |`;
+}
+
+export function renderMarkdownReport(input: MarkdownReportInput): string {
+  const { features, hotFiles } = input;
+  const hasChurn = !!input.churnWindow;
+  const date = input.analyzedAt.toISOString().slice(0, 10);
+  const categorized = features.filter(f => f.id !== 'uncategorized');
+  const categoryCount = new Set(categorized.map(f => f.category)).size;
+  const maxScore = Math.max(0, ...features.map(f => f.hotspotScore || 0));
+
+  const lines: string[] = [];
+  lines.push(`# Feature Architecture: ${input.repoName}`);
+  lines.push('');
+  lines.push(`Analyzed ${date} | ${input.totalSymbols} symbols | ${categorized.length} features | ${categoryCount} categories | ${input.coveragePct}% categorized`);
+  if (input.at) lines.push(`At: ${input.at.ref} (${input.at.commit.slice(0, 12)}, ${input.at.date.slice(0, 10)})`);
+  if (hasChurn) lines.push(`Churn: ${input.churnWindow}`);
+  lines.push('');
+
+  // Feature Map — categorized features first, Uncategorized always last
+  lines.push('## Feature Map');
+  lines.push('');
+  lines.push('| Category | Feature | Symbols | F | M | C | Churn | Hotspot | Description |');
+  lines.push('|----------|---------|--------:|--:|--:|--:|------:|---------|-------------|');
+  const uncategorized = features.find(f => f.id === 'uncategorized');
+  for (const feat of uncategorized ? [...categorized, uncategorized] : categorized) {
+    lines.push(row([
+      feat.category,
+      feat.name,
+      feat.total,
+      feat.functions,
+      feat.methods,
+      feat.classes,
+      hasChurn ? feat.churn || 0 : '',
+      hotspotBucket(feat.hotspotScore, maxScore) || '',
+      feat.description || '',
+    ]));
+  }
+  lines.push('');
+  lines.push('**Column key**: F = functions, M = methods, C = classes, Churn = lines added + deleted (since cutoff), Hotspot = LOW / MED / HIGH based on churn * sqrt(commits)');
+  lines.push('');
+
+  // Feature Detail — every feature's sub-feature tree, in Feature Map order
+  const detailed = categorized.filter(f => f.subFeatures?.length);
+  if (detailed.length > 0) {
+    lines.push('## Feature Detail');
+    lines.push('');
+    lines.push('| Feature | Sub-Feature | Symbols | F | M | C | Churn | Key Files | Description |');
+    lines.push('|---------|-------------|--------:|--:|--:|--:|------:|-----------|-------------|');
+    for (const feat of detailed) {
+      for (const { path, node } of flattenSubFeatures(feat.subFeatures!)) {
+        const auto = node.source === 'directory' || node.source === 'scope';
+        lines.push(row([
+          feat.name,
+          path.join(' › '),
+          node.total,
+          node.functions,
+          node.methods,
+          node.classes,
+          hasChurn ? node.churn || 0 : '',
+          node.keyFiles.map(f => f.slice(f.lastIndexOf('/') + 1)).join(', '),
+          node.description || (auto ? `(auto: by ${node.source === 'scope' ? 'class' : 'directory'})` : ''),
+        ]));
+      }
+    }
+    lines.push('');
+    lines.push('**Column key**: a sub-feature\'s counts include the sub-features nested under it (A › B); Churn = lines added + deleted within its symbols. Features without configured sub-features are broken down by sub-directory, then by class.');
+    lines.push('');
+  }
+
+  if (input.languages && input.languages.length > 1) {
+    const names = new Map(features.map(f => [f.id, f.name]));
+    lines.push('## Languages');
+    lines.push('');
+    lines.push('| Language | Files | Symbols | F | M | C | Largest features |');
+    lines.push('|----------|------:|--------:|--:|--:|--:|------------------|');
+    for (const lang of input.languages) {
+      const largest = Object.entries(lang.features)
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 3)
+        .map(([id, count]) => `${names.get(id) || id} (${count})`);
+      lines.push(row([lang.language, lang.files, lang.total, lang.functions, lang.methods, lang.classes, largest.join(', ')]));
+    }
+    lines.push('');
+  }
+
+  if (input.tests) {
+    const tests = input.tests;
+    lines.push('## Tests');
+    lines.push('');
+    const how = tests.mapping === 'mirror'
+      ? `${tests.mirrored} mapped to the source file they mirror, the rest by feature rules`
+      : 'mapped by feature rules';
+    lines.push(`${tests.files} test files, ${tests.symbols} test symbols (${how}). Ratio = test symbols per production symbol.`);
+    lines.push('');
+    lines.push('| Feature | Symbols | Test symbols | Test files | Ratio | Churn |');
+    lines.push('|---------|--------:|-------------:|-----------:|------:|------:|');
+    for (const feat of features) {
+      if (!feat.testSymbols && feat.id === 'uncategorized') continue;
+      lines.push(row([
+        feat.name,
+        feat.total,
+        feat.testSymbols || 0,
+        feat.testFiles || 0,
+        feat.testRatio === null || feat.testRatio === undefined ? '' : feat.testRatio.toFixed(2),
+        hasChurn ? feat.churn || 0 : '',
+      ]));
+    }
+    lines.push('');
+    if (tests.untested.length > 0) {
+      const names = new Map(features.map(f => [f.id, f.name]));
+      lines.push(`**Features with no tests**${hasChurn ? ' (hottest first)' : ''}: ${tests.untested.map(id => names.get(id) || id).join(', ')}`);
+      lines.push('');
+    }
+  }
+
+  if (input.unused) {
+    const unused = input.unused;
+    const names = new Map(features.map(f => [f.id, f.name]));
+    lines.push('## Likely Unused Symbols');
+    lines.push('');
+    lines.push(`${unused.high + unused.medium + unused.low} symbols whose names are never referenced elsewhere (${unused.scannedFiles} files searched, tests included). High = private and unreferenced; Medium = public and unreferenced; Low = referenced only from tests, strings or comments.`);
+    lines.push('');
+    lines.push('| Feature | Symbols | Unused | High | Medium | Low |');
+    lines.push('|---------|--------:|-------:|-----:|-------:|----:|');
+    for (const feat of features) {
+      if (!feat.unused) continue;
+      const count = feat.unused.high + feat.unused.medium + feat.unused.low;
+      if (count === 0) continue;
+      lines.push(row([feat.name, feat.total, count, feat.unused.high, feat.unused.medium, feat.unused.low]));
+    }
+    lines.push('');
+    const high = unused.symbols.filter(s => s.confidence === 'high');
+    if (high.length > 0) {
+      lines.push(`**High confidence**${high.length > 50 ? ' (first 50)' : ''}:`);
+      lines.push('');
+      lines.push('| Feature | Symbol | Kind | Location |');
+      lines.push('|---------|--------|------|----------|');
+      for (const s of high.slice(0, 50)) {
+        lines.push(row([names.get(s.feature) || s.feature, s.scope ? `${s.scope}.${s.name}` : s.name, s.kind, `${s.file}:${s.line}`]));
+      }
+      lines.push('');
+    }
+  }
+
+  if (input.assignments && input.assignments.unassigned.length > 0) {
+    const unassigned = input.assignments.unassigned;
+    lines.push('## Unassigned Symbols');
+    lines.push('');
+    lines.push(`${unassigned.length} symbols are new since ${input.assignments.file} was written. Rule Feature is what the feature rules classify them as.`);
+    lines.push('');
+    lines.push('| Symbol | Kind | Rule Feature | Location |');
+    lines.push('|--------|------|--------------|----------|');
+    for (const s of unassigned.slice(0, 50)) {
+      lines.push(row([s.scope ? `${s.scope}.${s.name}` : s.name, s.kind, s.feature, `${s.file}:${s.line}`]));
+    }
+    if (unassigned.length > 50) lines.push(row([`… ${unassigned.length - 50} more`, '', '', '']));
+    lines.push('');
+  }
+
+  if (hasChurn) {
+    lines.push('## Top 20 Hotspot Files');
+    lines.push('');
+    lines.push('| Churn | Commits | Feature | File |');
+    lines.push('|------:|--------:|---------|------|');
+    for (const f of hotFiles.slice(0, 20)) {
+      lines.push(row([f.churn, f.commits, f.feature, f.path]));
+    }
+    lines.push('');
+
+    lines.push('## Top 20 Hotspot Symbols');
+    lines.push('');
+    lines.push('| Churn | Commits | Feature | Symbol | Location |');
+    lines.push('|------:|--------:|---------|--------|----------|');
+    for (const s of input.hotSymbols.slice(0, 20)) {
+      lines.push(row([s.churn, s.commits, s.feature, s.scope ? `${s.scope}.${s.name}` : s.name, `${s.file}:${s.line}`]));
+    }
+    lines.push('');
+  }
+
+  if (input.largestSymbols?.length) {
+    lines.push('## Largest Symbols');
+    lines.push('');
+    lines.push('Complexity = 1 + decision points (if, loops, case, catch, &&, ||, ...) counted in the symbol\'s source; classes show their method count instead.');
+    lines.push('');
+    lines.push(`| Lines | Complexity / Methods |${hasChurn ? ' Risk |' : ''} Feature | Symbol | Location |`);
+    lines.push(`|------:|---------------------:|${hasChurn ? '-----:|' : ''}---------|--------|----------|`);
+    for (const s of input.largestSymbols) {
+      lines.push(row([
+        s.lines,
+        s.methods !== undefined ? `${s.methods} methods` : s.complexity ?? '',
+        ...(hasChurn ? [s.risk ?? ''] : []),
+        s.feature,
+        s.scope ? `${s.scope}.${s.name}` : s.name,
+        `${s.file}:${s.line}`,
+      ]));
+    }
+    lines.push('');
+  }
+
+  if (input.megaFiles) {
+    lines.push('## Mega-Files');
+    lines.push('');
+    lines.push(`Files with ${MEGA_FILE_LINES} or more lines, or ${MEGA_FILE_SYMBOLS} or more symbols.`);
+    lines.push('');
+    if (input.megaFiles.length > 0) {
+      lines.push('| Lines | Symbols | F | M | C | Max complexity | Feature | File |');
+      lines.push('|------:|--------:|--:|--:|--:|---------------:|---------|------|');
+      for (const f of input.megaFiles) {
+        lines.push(row([f.lines, f.symbols, f.functions, f.methods, f.classes, f.maxComplexity || '', f.feature, f.path]));
+      }
+    } else {
+      lines.push('No files over the size limits.');
+    }
+    lines.push('');
+  }
+
+  if (hasChurn && input.riskiestFiles?.length) {
+    lines.push('## Riskiest Files');
+    lines.push('');
+    lines.push('Risk = lines × commits in the churn window: large files that keep changing.');
+    lines.push('');
+    lines.push('| Risk | Lines | Commits | Churn | Feature | File |');
+    lines.push('|-----:|------:|--------:|------:|---------|------|');
+    for (const f of input.riskiestFiles) {
+      lines.push(row([f.risk!, f.lines, f.commits!, f.churn!, f.feature, f.path]));
+    }
+    lines.push('');
+  }
+
+  const trending = features.filter(f => f.series?.length);
+  if (trending.length > 0) {
+    const periods = trending[0].series!;
+    lines.push('## Churn Trend');
+    lines.push('');
+    lines.push(`Churn per ${input.interval || 'period'}, ${periods[0].period} to ${periods[periods.length - 1].period}. Trend = least-squares slope of churn per period: rising or falling when the fitted change across the window exceeds half the mean.`);
+    lines.push('');
+    lines.push('| Feature | Trend | Sparkline | Churn by period |');
+    lines.push('|---------|-------|-----------|-----------------|');
+    for (const f of trending) {
+      const values = f.series!.map(p => p.churn);
+      lines.push(row([f.name, f.trend || '', sparkline(values), values.join(' · ')]));
+    }
+    lines.push('');
+  }
+
+  const owned = features.filter(f => f.authors?.length);
+  if (owned.length > 0) {
+    lines.push('## Ownership');
+    lines.push('');
+    lines.push('Bus factor = fewest contributors who together hold more than half of the feature\'s churn.');
+    lines.push('');
+    lines.push('| Feature | Bus Factor | Top Contributors |');
+    lines.push('|---------|-----------:|------------------|');
+    for (const f of owned) {
+      const authors = f.authors!.map(a => `${a.name} (${Math.round(a.share * 100)}%)`).join(', ');
+      lines.push(row([f.name, f.busFactor ?? '', authors]));
+    }
+    lines.push('');
+  }
+
+  if (input.codeowners) {
+    const { codeowners } = input;
+    const names = new Map(features.map(f => [f.id, f.name]));
+    lines.push('## Code Owners');
+    lines.push('');
+    lines.push(`From ${codeowners.file}: ${codeowners.files - codeowners.unownedFiles} of ${codeowners.files} files with symbols have an owner. Share = the owner's part of the feature's symbols.`);
+    lines.push('');
+    lines.push('| Feature | Owners | Unowned Files | Top Owners |');
+    lines.push('|---------|-------:|--------------:|------------|');
+    for (const f of features.filter(f => f.owners)) {
+      const owners = f.owners!.slice(0, 3).map(o => `${o.owner} (${Math.round(o.share * 100)}%)`).join(', ');
+      lines.push(row([f.name, f.owners!.length, f.unownedFiles || 0, owners]));
+    }
+    lines.push('');
+    if (codeowners.fragmented.length > 0) {
+      lines.push(`**Owned by ${MANY_OWNERS} or more teams**: ${codeowners.fragmented.map(id => names.get(id) || id).join(', ')}`);
+      lines.push('');
+    }
+    if (codeowners.unowned.length > 0) {
+      lines.push(`**With unowned files**: ${codeowners.unowned.map(id => names.get(id) || id).join(', ')}`);
+      lines.push('');
+    }
+    if (hasChurn && codeowners.unownedHotFiles.length > 0) {
+      lines.push('| Churn | Commits | Feature | Unowned File |');
+      lines.push('|------:|--------:|---------|--------------|');
+      for (const f of codeowners.unownedHotFiles) lines.push(row([f.churn, f.commits, f.feature, f.path]));
+      lines.push('');
+    }
+  }
+
+  if (input.coupling) {
+    const { coupling } = input;
+    const names = new Map(features.map(f => [f.id, f.name]));
+    lines.push('## Co-Change Coupling');
+    lines.push('');
+    lines.push(`Pairs that changed in the same commits, across ${coupling.commits} commits. Confidence = co-changes / commits of the less-changed side.`);
+    lines.push('');
+    if (coupling.features.length > 0) {
+      lines.push('| Feature A | Feature B | Co-changes | Confidence |');
+      lines.push('|-----------|-----------|-----------:|-----------:|');
+      for (const p of coupling.features) {
+        lines.push(row([names.get(p.a) || p.a, names.get(p.b) || p.b, p.coChanges, `${Math.round(p.confidence * 100)}%`]));
+      }
+    } else {
+      lines.push('No feature pairs changed together in at least 2 commits.');
+    }
+    lines.push('');
+    if (coupling.files.length > 0) {
+      lines.push('| File A | File B | Co-changes | Confidence |');
+      lines.push('|--------|--------|-----------:|-----------:|');
+      for (const p of coupling.files) {
+        lines.push(row([p.a, p.b, p.coChanges, `${Math.round(p.confidence * 100)}%`]));
+      }
+    } else {
+      lines.push('No file pairs changed together in at least 2 commits.');
+    }
+    lines.push('');
+  }
+
+  if (input.dependencies) {
+    const deps = input.dependencies;
+    const names = new Map(features.map(f => [f.id, f.name]));
+    const name = (id: string) => names.get(id) || id;
+    lines.push('## Feature Dependencies');
+    lines.push('');
+    lines.push(`Import statements from the row feature resolving into the column feature (${deps.resolved} of ${deps.imports} imports resolved to repo files).`);
+    lines.push('');
+    const nodes = [...new Set(deps.edges.flatMap(e => [e.from, e.to]))].sort((a, b) => name(a).localeCompare(name(b)));
+    if (nodes.length > 0) {
+      const weight = new Map(deps.edges.map(e => [`${e.from}\0${e.to}`, e.imports]));
+      lines.push(row(['From → To', ...nodes.map(name)]));
+      lines.push(`|---|${nodes.map(() => '--:').join('|')}|`);
+      for (const from of nodes) {
+        lines.push(row([name(from), ...nodes.map(to => (from === to ? '—' : weight.get(`${from}\0${to}`) || ''))]));
+      }
+    } else {
+      lines.push('No imports between features.');
+    }
+    lines.push('');
+
+    // Facts for the template's Architectural Observations section
+    const observations: [string, string, string][] = [];
+    for (const cycle of deps.cycles) {
+      observations.push([`Dependency cycle between ${cycle.length} features`, cycle.map(name).join(', '), 'HIGH']);
+    }
+    for (const d of deps.mostDependedOn.filter(d => d.dependents >= 2)) {
+      observations.push([`Depended on by ${d.dependents} other features (${d.imports} imports)`, name(d.feature), d.dependents >= 5 ? 'MED' : 'LOW']);
+    }
+    if (observations.length > 0) {
+      lines.push('## Architectural Observations');
+      lines.push('');
+      lines.push('| Observation | Affected Features | Severity |');
+      lines.push('|-------------|-------------------|----------|');
+      for (const o of observations) lines.push(row(o));
+      lines.push('');
+    }
+  }
+
+  return lines.join('\n');
+}
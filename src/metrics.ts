@@ -0,0 +1,231 @@
+// ─── Size and complexity ────────────────────────────────────────────────────
+//
+// Per symbol: length in lines (from the extractor's end line), methods per
+// class, and an approximate cyclomatic complexity for functions and methods:
+// 1 + the decision points (if, loops, case, catch, &&, ||, ??, ...) found in
+// the symbol's lines once comments and string literals are blanked out. It's
+// keyword counting, not parsing, and a function's count includes any nested
+// functions. Per file: line and symbol counts. With churn, risk = lines ×
+// commits, so big code that keeps changing ranks above big code that doesn't.
+
+import fs from 'fs';
+import path from 'path';
+import type { FileChurn, FileMetrics, SizedSymbol, Symbol } from './types';
+
+// A file over either limit is a mega-file
+export const MEGA_FILE_LINES = 1000;
+export const MEGA_FILE_SYMBOLS = 50;
+
+const DECISION_RE = /\b(?:if|elif|elsif|for|foreach|while|until|unless|case|when|catch|except|guard)\b|&&|\|\||\?\?|\band\b|\bor\b/g;
+
+const blank = (text: string) => text.replace(/[^\n]/g, ' ');
+
+// The end of a one-line quoted string starting at `start`, or -1 when a line break comes first
+function stringEnd(source: string, start: number): number {
+  const quote = source[start];
+  for (let i = start + 1; i < source.length; i++) {
+    if (source[i] === '\\') i++;
+    else if (source[i] === quote) return i + 1;
+    else if (source[i] === '\n') return -1;
+  }
+  return -1;
+}
+
+// The end of a regex literal starting at `start`, or -1 when a line break comes first
+function regexEnd(source: string, start: number): number {
+  let inClass = false;
+  for (let i = start + 1; i < source.length; i++) {
+    const ch = source[i];
+    if (ch === '\\') i++;
+    else if (ch === '\n') return -1;
+    else if (ch === '[') inClass = true;
+    else if (ch === ']') inClass = false;
+    else if (ch === '/' && !inClass) {
+      while (/\w/.test(source[i + 1] || '')) i++;
+      return i + 1;
+    }
+  }
+  return -1;
+}
+
+// A "/" after these starts a regex literal rather than dividing
+const REGEX_PREFIX_RE = /(?:^|[(,=:[!&|?{};+\-*%<>~^])$|\b(?:return|typeof|case|do|else|in|of|void|yield|await|delete|instanceof|new)$/;
+
+/**
+ * C-style comments and strings. Backtick strings are blanked whole, except in
+ * JS/TS where the expressions inside `${...}` stay code: a template's text
+ * runs to its closing backtick or the next `${`, and the `}` that closes an
+ * interpolation (tracked by brace depth, as expressions hold objects and
+ * nested templates) resumes the template's text. JS/TS regex literals are
+ * blanked too, so the quotes and slashes in them start nothing.
+ */
+function stripCStyle(source: string, js: boolean): string {
+  const out: string[] = [];
+  const depths: number[] = [];   // open braces inside each enclosing `${`
+  let code = '';                 // the tail of the code before `i`, for telling regexes from division
+  let i = 0;
+  // Template text from `from` (just past a backtick or an interpolation's `}`)
+  const templateText = (from: number) => {
+    let j = from;
+    while (j < source.length && source[j] !== '`' && !(js && source[j] === '$' && source[j + 1] === '{')) {
+      j += source[j] === '\\' ? 2 : 1;
+    }
+    if (source[j] === '$') {
+      depths.push(0);
+      j += 2;
+      code = '{';
+    } else {
+      j++;
+      code = 'a';
+    }
+    out.push(blank(source.slice(i, j)));
+    i = j;
+  };
+  const literal = (stop: number) => {
+    out.push(blank(source.slice(i, stop)));
+    code = 'a';
+    i = stop;
+  };
+
+  while (i < source.length) {
+    const ch = source[i];
+    const next = source[i + 1];
+    if (ch === '/' && next === '/') {
+      const end = source.indexOf('\n', i);
+      const stop = end < 0 ? source.length : end;
+      out.push(blank(source.slice(i, stop)));
+      i = stop;
+    } else if (ch === '/' && next === '*' && source.indexOf('*/', i + 2) >= 0) {
+      const stop = source.indexOf('*/', i + 2) + 2;
+      out.push(blank(source.slice(i, stop)));
+      i = stop;
+    } else if ((ch === '"' || ch === "'") && stringEnd(source, i) >= 0) {
+      literal(stringEnd(source, i));
+    } else if (js && ch === '/' && REGEX_PREFIX_RE.test(code.trimEnd()) && regexEnd(source, i) >= 0) {
+      literal(regexEnd(source, i));
+    } else if (ch === '`') {
+      templateText(i + 1);
+    } else if (depths.length > 0 && ch === '{') {
+      depths[depths.length - 1]++;
+      out.push(ch);
+      code = ch;
+      i++;
+    } else if (depths.length > 0 && ch === '}') {
+      if (depths[depths.length - 1] > 0) {
+        depths[depths.length - 1]--;
+        out.push(ch);
+        code = ch;
+        i++;
+      } else {
+        depths.pop();
+        templateText(i + 1);
+      }
+    } else {
+      out.push(ch);
+      code = (code + (/\s/.test(ch) ? ' ' : ch)).replace(/\s+$/, ' ').slice(-12);
+      i++;
+    }
+  }
+  return out.join('');
+}
+
+/** Blanks comments and string literals, keeping line breaks so line numbers hold. */
+export function stripCode(source: string, file: string): string {
+  if (!/\.(py|pyw|rb|rake|sh)$/.test(file)) return stripCStyle(source, /\.(ts|tsx|mts|cts|js|jsx|mjs|cjs)$/.test(file));
+  const pattern = /#[^\n]*|"""[\s\S]*?"""|'''[\s\S]*?'''|"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'/g;
+  return source.replace(pattern, blank);
+}
+
+// `and` / `or` are operators only in Python and Ruby
+function countDecisions(text: string, file: string): number {
+  const wordOperators = /\.(py|pyw|rb|rake)$/.test(file);
+  let count = 0;
+  for (const m of text.matchAll(DECISION_RE)) {
+    if (!wordOperators && (m[0] === 'and' || m[0] === 'or')) continue;
+    count++;
+  }
+  return count;
+}
+
+const lastScopeSegment = (scope: string) => scope.split(/\.|::|#/).pop();
+
+/**
+ * Sets `lines`, `complexity` (functions and methods) and `methods` (classes)
+ * on each symbol, and returns line and symbol counts for every file holding
+ * a symbol.
+ */
+export function measureSymbols(repoRoot: string, symbols: Symbol[]): FileMetrics[] {
+  const byFile = new Map<string, Symbol[]>();
+  for (const sym of symbols) {
+    const list = byFile.get(sym.file) || [];
+    list.push(sym);
+    byFile.set(sym.file, list);
+  }
+
+  const files: FileMetrics[] = [];
+  for (const [file, fileSymbols] of byFile) {
+    let source: string | null = null;
+    try {
+      source = fs.readFileSync(path.join(repoRoot, file), 'utf-8');
+    } catch {}
+    const lines = source === null ? [] : stripCode(source, file).split('\n');
+
+    for (const sym of fileSymbols) {
+      if (sym.endLine && sym.endLine >= sym.line) sym.lines = sym.endLine - sym.line + 1;
+      if (sym.kind === 'class') {
+        sym.methods = fileSymbols.filter(m => m.kind === 'method' && m.scope && lastScopeSegment(m.scope) === sym.name).length;
+      } else if (sym.lines && lines.length > 0) {
+        sym.complexity = 1 + countDecisions(lines.slice(sym.line - 1, sym.endLine).join('\n'), file);
+      }
+    }
+
+    // The feature holding most of the file's symbols
+    const features = new Map<string, number>();
+    for (const sym of fileSymbols) features.set(sym.featureName, (features.get(sym.featureName) || 0) + 1);
+
+    files.push({
+      path: file,
+      feature: [...features].sort((a, b) => b[1] - a[1])[0][0],
+      lines: source === null ? 0 : source.split('\n').length - (source.endsWith('\n') ? 1 : 0),
+      symbols: fileSymbols.length,
+      functions: fileSymbols.filter(s => s.kind === 'function').length,
+      methods: fileSymbols.filter(s => s.kind === 'method').length,
+      classes: fileSymbols.filter(s => s.kind === 'class').length,
+      maxComplexity: Math.max(0, ...fileSymbols.map(s => s.complexity || 0)),
+    });
+  }
+  return files.sort((a, b) => b.lines - a.lines);
+}
+
+/** Adds commits, churn and the lines × commits risk score to each file. */
+export function applyFileRisk(files: FileMetrics[], churn: FileChurn[]) {
+  const byPath = new Map(churn.map(c => [c.path, c]));
+  for (const file of files) {
+    const c = byPath.get(file.path);
+    file.commits = c?.commits || 0;
+    file.churn = c?.churn || 0;
+    file.risk = file.lines * file.commits;
+  }
+}
+
+/** Files over MEGA_FILE_LINES lines or MEGA_FILE_SYMBOLS symbols, largest first. */
+export function findMegaFiles(files: FileMetrics[]): FileMetrics[] {
+  return files
+    .filter(f => f.lines >= MEGA_FILE_LINES || f.symbols >= MEGA_FILE_SYMBOLS)
+    .sort((a, b) => b.lines - a.lines || b.symbols - a.symbols);
+}
+
+/** The longest symbols, with a lines × commits risk score when churn is known. */
+export function largestSymbols(symbols: Symbol[], limit: number, hasChurn: boolean): SizedSymbol[] {
+  return symbols
+    .filter(s => s.lines)
+    .sort((a, b) => b.lines! - a.lines!)
+    .slice(0, limit)
+    .map(s => ({
+      name: s.name, kind: s.kind, scope: s.scope, file: s.file, line: s.line, lines: s.lines!,
+      ...(s.complexity ? { complexity: s.complexity } : {}),
+      ...(s.methods !== undefined ? { methods: s.methods } : {}),
+      feature: s.featureName,
+      ...(hasChurn ? { commits: s.commits || 0, risk: s.lines! * (s.commits || 0) } : {}),
+    }));
+}
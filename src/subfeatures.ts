@@ -0,0 +1,215 @@
+// ─── Sub-features ───────────────────────────────────────────────────────────
+//
+// A feature rule may nest `subFeatures`, each with its own rules and possibly
+// sub-features of its own. A symbol is first classified into a top-level
+// feature as usual, then among that feature's sub-features, then among the
+// chosen sub-feature's children, and so on; `subFeature` on the symbol holds
+// the innermost id. A sub-feature pinned by an assignments file is kept, and
+// only its configured children are tried.
+//
+// Each FeatureReport gets a tree of SubFeatureReports whose counts and churn
+// include everything below them. Symbols no sub-feature matches stay with
+// the parent. Features without configured or assigned sub-features are broken
+// down automatically: by the sub-directories below the directory all of the
+// feature's files share, and within each of those (or when there is only one)
+// by class scope.
+
+import { createClassifier, type Classifier } from './classify';
+import type { FeatureReport, FeatureRule, MatchPolicy, SubFeatureReport, SubFeatureRule, SubFeatureSource, Symbol } from './types';
+
+// Automatic groups kept per level, largest first; the rest stay with the parent
+const MAX_AUTO_GROUPS = 12;
+const KEY_FILES = 3;
+
+interface SubFeatureDef {
+  rule: SubFeatureRule;
+  path: string[];        // ids from the top-level feature down to this one
+}
+
+/** Every configured sub-feature by id, with its path from the top-level feature. */
+export function indexSubFeatures(features: FeatureRule[]): Map<string, SubFeatureDef> {
+  const index = new Map<string, SubFeatureDef>();
+  const visit = (subs: SubFeatureRule[], path: string[]) => {
+    for (const rule of subs) {
+      if (index.has(rule.id)) continue;
+      index.set(rule.id, { rule, path: [...path, rule.id] });
+      if (rule.subFeatures?.length) visit(rule.subFeatures, [...path, rule.id]);
+    }
+  };
+  for (const feature of features) {
+    if (feature.subFeatures?.length) visit(feature.subFeatures, [feature.id]);
+  }
+  return index;
+}
+
+/**
+ * Classifies a symbol below `parentId` (a feature or sub-feature id): the
+ * innermost matching sub-feature id, or undefined when no child matches.
+ * Sub-features inherit their parent's category and the config's match policy.
+ */
+export function createSubFeatureClassifier(features: FeatureRule[], policy: MatchPolicy = 'first') {
+  const byParent = new Map<string, Classifier>();
+  const visit = (parentId: string, subs: SubFeatureRule[], category: string) => {
+    if (byParent.has(parentId)) return;
+    byParent.set(parentId, createClassifier(subs.map(s => ({ ...s, category: s.category || category })), policy));
+    for (const sub of subs) {
+      if (sub.subFeatures?.length) visit(sub.id, sub.subFeatures, sub.category || category);
+    }
+  };
+  for (const feature of features) {
+    if (feature.subFeatures?.length) visit(feature.id, feature.subFeatures, feature.category);
+  }
+
+  return (parentId: string, relPath: string, symbol?: Pick<Symbol, 'name' | 'scope'>): string | undefined => {
+    let found: string | undefined;
+    for (let classifier = byParent.get(parentId); classifier; classifier = byParent.get(found!)) {
+      const { id } = classifier.classify(relPath, symbol);
+      if (id === 'uncategorized') break;
+      found = id;
+    }
+    return found;
+  };
+}
+
+interface Node {
+  report: SubFeatureReport;
+  files: Map<string, number>;
+  children: Map<string, Node>;
+}
+
+function createNode(id: string, name: string, source: SubFeatureSource, description?: string): Node {
+  return {
+    report: { id, name, source, ...(description ? { description } : {}), functions: 0, methods: 0, classes: 0, total: 0, keyFiles: [] },
+    files: new Map(),
+    children: new Map(),
+  };
+}
+
+function count(node: Node, sym: Symbol, hasChurn: boolean) {
+  const r = node.report;
+  if (sym.kind === 'function') r.functions++;
+  else if (sym.kind === 'method') r.methods++;
+  else if (sym.kind === 'class') r.classes++;
+  r.total++;
+  if (hasChurn) r.churn = (r.churn || 0) + (sym.churn || 0);
+  node.files.set(sym.file, (node.files.get(sym.file) || 0) + 1);
+}
+
+// Largest first, with the files holding the most symbols as key files
+function finish(nodes: Iterable<Node>): SubFeatureReport[] {
+  return [...nodes]
+    .map(node => {
+      node.report.keyFiles = [...node.files].sort((a, b) => b[1] - a[1]).slice(0, KEY_FILES).map(([file]) => file);
+      const children = finish(node.children.values());
+      if (children.length > 0) node.report.subFeatures = children;
+      return node.report;
+    })
+    .sort((a, b) => b.total - a.total);
+}
+
+const dirOf = (file: string) => file.slice(0, file.lastIndexOf('/') + 1);
+
+// The directory every file shares, "" or ending in "/"
+function commonDir(files: string[]): string {
+  let prefix = dirOf(files[0]);
+  for (const file of files) {
+    while (prefix && !file.startsWith(prefix)) prefix = dirOf(prefix.slice(0, -1));
+  }
+  return prefix;
+}
+
+// Classes group under their own qualified name, members under their scope
+const scopeKey = (sym: Symbol) => (sym.kind === 'class' ? (sym.scope ? `${sym.scope}.${sym.name}` : sym.name) : sym.scope);
+
+function groupBy(symbols: Symbol[], keyOf: (sym: Symbol) => string | undefined): [string, Symbol[]][] {
+  const groups = new Map<string, Symbol[]>();
+  for (const sym of symbols) {
+    const key = keyOf(sym);
+    if (!key) continue;
+    const list = groups.get(key) || [];
+    list.push(sym);
+    groups.set(key, list);
+  }
+  return [...groups].sort((a, b) => b[1].length - a[1].length).slice(0, MAX_AUTO_GROUPS);
+}
+
+function scopeNodes(symbols: Symbol[], hasChurn: boolean): Node[] {
+  const groups = groupBy(symbols, scopeKey);
+  if (groups.length < 2) return [];
+  return groups.map(([scope, members]) => {
+    const node = createNode(`scope:${scope}`, scope, 'scope');
+    for (const sym of members) count(node, sym, hasChurn);
+    return node;
+  });
+}
+
+/** The automatic breakdown of one feature's symbols: sub-directories, then class scopes. */
+export function autoBreakdown(symbols: Symbol[], hasChurn: boolean): SubFeatureReport[] {
+  if (symbols.length === 0) return [];
+  const base = commonDir(symbols.map(s => s.file));
+  const dirs = groupBy(symbols, sym => {
+    const rest = sym.file.slice(base.length);
+    const slash = rest.indexOf('/');
+    return slash > 0 ? base + rest.slice(0, slash + 1) : undefined;
+  });
+  if (dirs.length < 2) return finish(scopeNodes(symbols, hasChurn));
+  return finish(dirs.map(([dir, members]) => {
+    const node = createNode(`dir:${dir}`, dir.slice(base.length), 'directory');
+    for (const sym of members) count(node, sym, hasChurn);
+    for (const child of scopeNodes(members, hasChurn)) node.children.set(child.report.id, child);
+    return node;
+  }));
+}
+
+/**
+ * Sets `subFeatures` on every report: the configured and assigned tree when
+ * any of a feature's symbols has a sub-feature, else the automatic
+ * breakdown. Uncategorized symbols are not broken down.
+ */
+export function applySubFeatures(features: Map<string, FeatureReport>, symbols: Symbol[], config: FeatureRule[], hasChurn: boolean) {
+  const index = indexSubFeatures(config);
+  const byFeature = new Map<string, Symbol[]>();
+  for (const sym of symbols) {
+    const list = byFeature.get(sym.feature) || [];
+    list.push(sym);
+    byFeature.set(sym.feature, list);
+  }
+
+  for (const [id, members] of byFeature) {
+    const report = features.get(id);
+    if (!report || id === 'uncategorized') continue;
+    if (!members.some(s => s.subFeature)) {
+      const auto = autoBreakdown(members, hasChurn);
+      if (auto.length > 0) report.subFeatures = auto;
+      continue;
+    }
+
+    const roots = new Map<string, Node>();
+    for (const sym of members) {
+      if (!sym.subFeature) continue;
+      const def = index.get(sym.subFeature);
+      // Configured under this feature, else a sub-feature only the assignments name
+      const path = def && def.path[0] === id ? def.path.slice(1) : [sym.subFeature];
+      let level = roots;
+      for (const subId of path) {
+        let node = level.get(subId);
+        if (!node) {
+          const rule = index.get(subId)?.rule;
+          node = rule ? createNode(subId, rule.name, 'config', rule.description) : createNode(subId, subId, 'assignments');
+          level.set(subId, node);
+        }
+        count(node, sym, hasChurn);
+        level = node.children;
+      }
+    }
+    report.subFeatures = finish(roots.values());
+  }
+}
+
+/** Depth-first rows of a sub-feature tree, each with its ancestors' names. */
+export function flattenSubFeatures(subFeatures: SubFeatureReport[], parents: string[] = []): { path: string[]; node: SubFeatureReport }[] {
+  return subFeatures.flatMap(node => [
+    { path: [...parents, node.name], node },
+    ...flattenSubFeatures(node.subFeatures || [], [...parents, node.name]),
+  ]);
+}
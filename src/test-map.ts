@@ -0,0 +1,169 @@
+// ─── Test-to-feature mapping ────────────────────────────────────────────────
+//
+// Test files are extracted apart from production code and assigned to
+// features in one of two ways:
+//   rules   classify each test symbol with the feature rules, like any symbol
+//   mirror  find the production file the test mirrors (foo.test.ts → foo.ts,
+//           test_foo.py → foo.py, FooTest.java → Foo.java, foo_test.go →
+//           foo.go) and take that file's feature; tests mirroring no file
+//           fall back to the rules
+// When several production files share the mirrored name, the one sharing the
+// most directory names with the test wins (tests/billing/test_invoice.py →
+// src/billing/invoice.py).
+
+import path from 'path';
+import type { Classifier } from './classify';
+import { createExcludeMatcher } from './extract-ts';
+import type { FeatureReport, Symbol, TestFileMapping } from './types';
+
+export type TestMapping = 'rules' | 'mirror';
+
+export const TEST_MAPPINGS: TestMapping[] = ['rules', 'mirror'];
+
+// Test file and directory names, in --exclude glob syntax (basename or path)
+export const DEFAULT_TEST_PATTERNS = [
+  '*.test.*', '*.spec.*', '__tests__', 'test', 'tests', 'spec',
+  'test_*.py', '*_test.py', '*_test.go', '*_spec.rb', '*_test.rb',
+  '*Test.java', '*Tests.java', '*Test.kt', '*Tests.kt', '*Test.cs', '*Tests.cs', '*Tests.swift', '*Test.php',
+];
+
+// Test markers stripped from a file name to get the name of the file it tests
+const TEST_MARKERS = [
+  /\.(test|spec)(?=\.[^.]+$)/, /^test_/, /_(test|spec)(?=\.[^.]+$)/, /Tests?(?=\.[^.]+$)/,
+];
+
+// Test and source roots, which say nothing about which file a test mirrors
+const ROOT_DIRS = new Set(['__tests__', 'test', 'tests', 'spec', 'src', 'lib', 'main']);
+
+/** True when the file, or any directory above it, matches a test pattern. */
+export function createTestMatcher(patterns: string[]): (relPath: string) => boolean {
+  const isMatch = createExcludeMatcher(patterns);
+  return (relPath: string) => {
+    const parts = relPath.split('/');
+    for (let i = 1; i <= parts.length; i++) {
+      if (isMatch(parts.slice(0, i).join('/'))) return true;
+    }
+    return false;
+  };
+}
+
+/** foo.test.ts → foo, test_foo.py → foo, FooTest.java → Foo; null when no marker is found. */
+export function testedName(testFile: string): string | null {
+  const base = path.posix.basename(testFile);
+  for (const marker of TEST_MARKERS) {
+    if (marker.test(base)) {
+      const stripped = base.replace(marker, '');
+      return stripped.slice(0, stripped.length - path.posix.extname(stripped).length);
+    }
+  }
+  return null;
+}
+
+function stem(file: string): string {
+  const base = path.posix.basename(file);
+  return base.slice(0, base.length - path.posix.extname(base).length);
+}
+
+// Directory names shared by two paths, ignoring test and source roots
+function sharedDirs(a: string, b: string): number {
+  const dirsOf = (p: string) => path.posix.dirname(p).split('/').filter(d => d !== '.' && !ROOT_DIRS.has(d));
+  const other = new Set(dirsOf(b));
+  return dirsOf(a).filter(d => other.has(d)).length;
+}
+
+/** The production file a test file mirrors, or null. */
+export function findMirror(testFile: string, sourcesByStem: Map<string, string[]>): string | null {
+  const name = testedName(testFile);
+  const candidates = name ? sourcesByStem.get(name) : undefined;
+  if (!candidates?.length) return null;
+  let best = candidates[0];
+  let bestScore = -1;
+  for (const file of candidates) {
+    const score = sharedDirs(testFile, file);
+    if (score > bestScore) {
+      best = file;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Assigns every test symbol a feature (in place) and returns one mapping per
+ * test file. Mirrored files take the most common feature of the production
+ * file's symbols.
+ */
+export function mapTests(
+  testSymbols: Symbol[],
+  production: Symbol[],
+  classifier: Classifier,
+  mode: TestMapping,
+): TestFileMapping[] {
+  const featureOfSource = new Map<string, Map<string, number>>();
+  const featureNames = new Map<string, string>();
+  for (const sym of production) {
+    featureNames.set(sym.feature, sym.featureName);
+    const counts = featureOfSource.get(sym.file) || new Map<string, number>();
+    counts.set(sym.feature, (counts.get(sym.feature) || 0) + 1);
+    featureOfSource.set(sym.file, counts);
+  }
+  const sourcesByStem = new Map<string, string[]>();
+  for (const file of featureOfSource.keys()) {
+    const list = sourcesByStem.get(stem(file)) || [];
+    list.push(file);
+    sourcesByStem.set(stem(file), list);
+  }
+
+  const byFile = new Map<string, Symbol[]>();
+  for (const sym of testSymbols) {
+    const list = byFile.get(sym.file) || [];
+    list.push(sym);
+    byFile.set(sym.file, list);
+  }
+
+  const mappings: TestFileMapping[] = [];
+  for (const [file, symbols] of byFile) {
+    const mirror = mode === 'mirror' ? findMirror(file, sourcesByStem) : null;
+    if (mirror) {
+      const counts = featureOfSource.get(mirror)!;
+      const feature = [...counts].sort((a, b) => b[1] - a[1])[0][0];
+      const featureName = featureNames.get(feature) || feature;
+      for (const sym of symbols) {
+        sym.feature = feature;
+        sym.featureName = featureName;
+      }
+      mappings.push({ file, feature, symbols: symbols.length, mirrors: mirror });
+      continue;
+    }
+    const features = new Map<string, number>();
+    for (const sym of symbols) {
+      const { id, name } = classifier.classify(sym.file, sym);
+      sym.feature = id;
+      sym.featureName = name;
+      features.set(id, (features.get(id) || 0) + 1);
+    }
+    mappings.push({ file, feature: [...features].sort((a, b) => b[1] - a[1])[0][0], symbols: symbols.length });
+  }
+  return mappings.sort((a, b) => a.file.localeCompare(b.file));
+}
+
+/** Adds test file and symbol counts, and the test-to-production ratio, to each feature. */
+export function applyTestCounts(features: Map<string, FeatureReport>, testSymbols: Symbol[]) {
+  const files = new Map<string, Set<string>>();
+  for (const report of features.values()) {
+    report.testSymbols = 0;
+    report.testFiles = 0;
+  }
+  for (const sym of testSymbols) {
+    const report = features.get(sym.feature);
+    if (!report) continue;
+    report.testSymbols!++;
+    const set = files.get(sym.feature) || new Set<string>();
+    set.add(sym.file);
+    files.set(sym.feature, set);
+  }
+  for (const report of features.values()) {
+    report.testFiles = files.get(report.id)?.size || 0;
+    report.testRatio = report.total > 0 ? Math.round((report.testSymbols! / report.total) * 100) / 100 : null;
+  }
+}
@@ -0,0 +1,136 @@
+// ─── Churn trends ───────────────────────────────────────────────────────────
+//
+// Buckets each feature's commits and churn by week, month or quarter (UTC,
+// by author date). Every feature gets the same run of periods, from the
+// oldest to the newest commit in the window, with empty periods kept as zeros
+// so series line up. A feature's trend comes from the least-squares slope of
+// its churn per period. The fitted change across the window, relative to the
+// mean, classifies it: rising above +50%, falling below -50%, flat between.
+
+import type { CommitRecord } from './churn';
+import type { TrendPoint, ChurnTrend } from './types';
+
+export type TrendInterval = 'week' | 'month' | 'quarter';
+
+export const TREND_INTERVALS: TrendInterval[] = ['week', 'month', 'quarter'];
+
+export interface FeatureTrend {
+  series: TrendPoint[];
+  trend: ChurnTrend | null;   // null with fewer than 3 periods
+}
+
+// Classification needs at least this many periods to mean anything
+const MIN_PERIODS = 3;
+const TREND_THRESHOLD = 0.5;
+
+const SPARK = '▁▂▃▄▅▆▇█';
+
+/** Start of the period containing `date`, in UTC. */
+export function periodStart(date: Date, interval: TrendInterval): Date {
+  const y = date.getUTCFullYear();
+  const m = date.getUTCMonth();
+  if (interval === 'month') return new Date(Date.UTC(y, m, 1));
+  if (interval === 'quarter') return new Date(Date.UTC(y, m - (m % 3), 1));
+  // ISO weeks start on Monday
+  const day = date.getUTCDay() || 7;
+  return new Date(Date.UTC(y, m, date.getUTCDate() - day + 1));
+}
+
+export function nextPeriod(start: Date, interval: TrendInterval): Date {
+  const y = start.getUTCFullYear();
+  const m = start.getUTCMonth();
+  if (interval === 'month') return new Date(Date.UTC(y, m + 1, 1));
+  if (interval === 'quarter') return new Date(Date.UTC(y, m + 3, 1));
+  return new Date(Date.UTC(y, m, start.getUTCDate() + 7));
+}
+
+/** "2024-03-04" for weeks (the Monday), "2024-03" for months, "2024-Q1" for quarters. */
+export function periodLabel(start: Date, interval: TrendInterval): string {
+  const iso = start.toISOString();
+  if (interval === 'month') return iso.slice(0, 7);
+  if (interval === 'quarter') return `${start.getUTCFullYear()}-Q${Math.floor(start.getUTCMonth() / 3) + 1}`;
+  return iso.slice(0, 10);
+}
+
+/** Rising / falling / flat from the churn series; null when too short to tell. */
+export function classifyTrend(values: number[]): ChurnTrend | null {
+  const n = values.length;
+  if (n < MIN_PERIODS) return null;
+  const mean = values.reduce((s, v) => s + v, 0) / n;
+  if (mean === 0) return 'flat';
+  const xMean = (n - 1) / 2;
+  let num = 0;
+  let den = 0;
+  values.forEach((v, x) => {
+    num += (x - xMean) * (v - mean);
+    den += (x - xMean) * (x - xMean);
+  });
+  const change = ((num / den) * (n - 1)) / mean;
+  if (change > TREND_THRESHOLD) return 'rising';
+  if (change < -TREND_THRESHOLD) return 'falling';
+  return 'flat';
+}
+
+/** One block character per value, scaled to the largest value. */
+export function sparkline(values: number[]): string {
+  const max = Math.max(0, ...values);
+  if (max === 0) return SPARK[0].repeat(values.length);
+  return values.map(v => SPARK[Math.min(SPARK.length - 1, Math.floor((v / max) * (SPARK.length - 1) + 0.5))]).join('');
+}
+
+/**
+ * Per-feature churn series. A commit counts once per feature it touches;
+ * churn is the lines added + deleted in that feature's files.
+ */
+export function analyzeTrends(
+  history: CommitRecord[],
+  classify: (path: string) => string,
+  excludePatterns: string[],
+  interval: TrendInterval,
+): Map<string, FeatureTrend> {
+  const result = new Map<string, FeatureTrend>();
+  const dated = history.filter(c => c.timestamp > 0);
+  if (dated.length === 0) return result;
+
+  // Not Math.min(...): spreading a long history overflows the call stack
+  const earliest = dated.reduce((min, c) => Math.min(min, c.timestamp), Infinity);
+  const latest = dated.reduce((max, c) => Math.max(max, c.timestamp), -Infinity);
+  const first = periodStart(new Date(earliest * 1000), interval);
+  const last = new Date(latest * 1000);
+  const starts: Date[] = [];
+  for (let d = first; d <= last; d = nextPeriod(d, interval)) starts.push(d);
+  const index = new Map(starts.map((d, i) => [d.getTime(), i]));
+
+  const tallies = new Map<string, { commits: number[]; churn: number[] }>();
+  for (const commit of dated) {
+    const slot = index.get(periodStart(new Date(commit.timestamp * 1000), interval).getTime())!;
+    const touched = new Set<string>();
+    for (const change of commit.files) {
+      if (excludePatterns.some(ex => change.path.includes(ex))) continue;
+      const feature = classify(change.path);
+      let tally = tallies.get(feature);
+      if (!tally) {
+        tally = { commits: starts.map(() => 0), churn: starts.map(() => 0) };
+        tallies.set(feature, tally);
+      }
+      tally.churn[slot] += change.additions + change.deletions;
+      if (!touched.has(feature)) {
+        touched.add(feature);
+        tally.commits[slot]++;
+      }
+    }
+  }
+
+  for (const [feature, tally] of tallies) {
+    result.set(feature, {
+      series: starts.map((d, i) => ({
+        period: periodLabel(d, interval),
+        start: d.toISOString().slice(0, 10),
+        commits: tally.commits[i],
+        churn: tally.churn[i],
+      })),
+      trend: classifyTrend(tally.churn),
+    });
+  }
+  return result;
+}
@@ -0,0 +1,430 @@
+// ─── Shared types ────────────────────────────────────────────────────────────
+
+import type { RuleOverlap } from './classify';
+import type { CouplingReport } from './coupling';
+import type { DependencyReport } from './imports';
+
+export interface CtagsEntry {
+  name: string;
+  path: string;
+  line: number;
+  kind: string;
+  scope?: string;
+  scopeKind?: string;
+  language?: string;     // ctags parser name, e.g. "TypeScript", "C#"
+  pattern?: string;
+  end?: number;          // last line of the definition, when ctags knows it
+}
+
+export interface Symbol {
+  name: string;
+  kind: 'function' | 'method' | 'class';
+  file: string;          // relative to repo root
+  language?: string;     // ctags language name ("TypeScript", "C#", "C++", ...)
+  line: number;
+  endLine?: number;      // last line, when the extractor reports it
+  lines?: number;        // endLine - line + 1, when the end line is known
+  complexity?: number;   // approximate cyclomatic complexity (functions and methods)
+  methods?: number;      // methods declared in this class (classes only)
+  scope?: string;        // parent class/module
+  signature?: string;    // pattern from ctags
+  exported?: boolean;    // known only to the TypeScript extractor
+  package?: string;      // workspace package, when the repo declares workspaces
+  feature: string;       // assigned feature id
+  featureName: string;
+  subFeature?: string;   // innermost sub-feature id, from the config's subFeatures or --assignments
+  owners?: string[];     // from CODEOWNERS; absent when unowned
+  // churn (if --since provided)
+  commits?: number;
+  churn?: number;
+}
+
+export interface FeatureRule {
+  id: string;
+  name: string;
+  category: string;
+  description?: string;  // shown in the markdown Feature Map
+  paths?: string[];      // path substrings, globs or re: regexes that indicate this feature
+  exclude?: string[];    // path patterns that veto this feature even when paths match
+  symbols?: string[];    // symbol name patterns (e.g. "*Stripe*"); all given criteria must match
+  scopes?: string[];     // parent class/module patterns
+  priority?: number;     // higher wins when several features match (default 0)
+  thresholds?: FeatureThresholds;  // overrides the config-wide limits for this feature (--check)
+  subFeatures?: SubFeatureRule[];  // matched only among this feature's symbols
+}
+
+// A sub-feature's rules, nested under a feature or another sub-feature; the
+// category defaults to the parent's
+export interface SubFeatureRule extends Omit<FeatureRule, 'category' | 'thresholds'> {
+  category?: string;
+}
+
+// Limits enforced by --check
+export interface Thresholds {
+  maxUncategorizedPct?: number;      // % of all symbols
+  maxUncategorizedSymbols?: number;
+  maxSymbolsPerFeature?: number;
+  maxSymbolsPerFile?: number;
+  maxHotspotScore?: number;          // needs a churn window
+}
+
+export interface FeatureThresholds {
+  maxSymbols?: number;
+  maxSymbolsPerFile?: number;
+  maxHotspotScore?: number;
+}
+
+// Extends or overrides a language in the built-in kind table (src/languages.ts)
+export interface LanguageConfig {
+  extensions?: string[];                 // extra file extensions, e.g. ".cshtml"
+  kinds?: Record<string, Symbol['kind'] | 'component' | null>;  // ctags kind name → symbol kind; null drops it
+  ctagsKinds?: string;                   // --kinds-<lang> letters
+  define?: string[];                     // ctags options (--langdef, --regex-...) for languages ctags lacks
+}
+
+// Symbols --unused never reports. Patterns use --exclude glob syntax (basename or path).
+export interface UnusedConfig {
+  entryPoints?: string[];    // files whose symbols are all kept (CLI mains, handlers, scripts)
+  hooks?: string[];          // symbol name globs called by frameworks, on top of the built-in list
+  publicApi?: string[];      // files whose exports are the package's public API
+}
+
+export type MatchPolicy = 'first' | 'most-specific';
+
+export interface FeatureConfig {
+  name: string;
+  description?: string;
+  excludePaths?: string[];   // paths to skip entirely
+  excludeChurn?: string[];   // path patterns to exclude from churn analysis
+  matchPolicy?: MatchPolicy; // tie-break among equal-priority matches (default "first")
+  authorAliases?: Record<string, string[]>;  // canonical author → other names/emails (--authors)
+  thresholds?: Thresholds;   // limits enforced by --check
+  testPaths?: string[];      // test file patterns for --tests (default: common test naming conventions)
+  unused?: UnusedConfig;     // allowlists for --unused
+  languages?: Record<string, LanguageConfig>;  // ctags language name → kind mapping overrides
+  features: FeatureRule[];
+}
+
+export interface FeatureReport {
+  id: string;
+  name: string;
+  category: string;
+  description?: string;
+  functions: number;
+  methods: number;
+  classes: number;
+  total: number;
+  // churn (if --since provided)
+  commits?: number;
+  churn?: number;
+  hotspotScore?: number;
+  topFiles?: { path: string; commits: number; churn: number; package?: string }[];
+  // churn over time (if --interval provided)
+  series?: TrendPoint[];
+  trend?: ChurnTrend | null;
+  // ownership (if --authors provided)
+  authors?: AuthorShare[];
+  busFactor?: number;
+  // tests (if --tests provided)
+  testFiles?: number;
+  testSymbols?: number;
+  testRatio?: number | null;   // test symbols per production symbol; null without production symbols
+  unused?: Record<UnusedConfidence, number>;  // likely-unused candidates (--unused)
+  subFeatures?: SubFeatureReport[];           // configured or assigned sub-features, else an automatic breakdown
+  // CODEOWNERS (when the repo has one)
+  owners?: OwnerShare[];
+  unownedFiles?: number;
+}
+
+// Where a sub-feature comes from: the config, an assignments file, or the
+// automatic breakdown by sub-directory or class scope
+export type SubFeatureSource = 'config' | 'assignments' | 'directory' | 'scope';
+
+// One node of a feature's sub-feature tree; counts and churn include its own sub-features
+export interface SubFeatureReport {
+  id: string;
+  name: string;
+  source: SubFeatureSource;
+  description?: string;
+  functions: number;
+  methods: number;
+  classes: number;
+  total: number;
+  churn?: number;        // churn attributed to its symbols' lines (with a churn window)
+  keyFiles: string[];    // files holding the most of its symbols
+  subFeatures?: SubFeatureReport[];
+}
+
+export type ChurnTrend = 'rising' | 'falling' | 'flat';
+
+export interface TrendPoint {
+  period: string;        // "2024-03-04" (week), "2024-03" (month) or "2024-Q1" (quarter)
+  start: string;         // first day of the period, YYYY-MM-DD
+  commits: number;       // commits touching the feature
+  churn: number;
+}
+
+export interface AuthorShare {
+  name: string;
+  email: string;
+  commits: number;
+  churn: number;
+  share: number;         // 0–1 share of the feature's (recency-weighted) churn
+}
+
+// One CODEOWNERS owner's part of a feature
+export interface OwnerShare {
+  owner: string;         // "@org/team", "@user" or an email
+  files: number;
+  symbols: number;
+  share: number;         // 0–1 share of the feature's symbols; co-owned files count for each owner
+}
+
+export interface FileChurn {
+  path: string;
+  package?: string;      // workspace package, when the repo declares workspaces
+  commits: number;
+  additions: number;
+  deletions: number;
+  churn: number;
+}
+
+export interface HotSymbol {
+  name: string;
+  kind: Symbol['kind'];
+  scope?: string;
+  file: string;
+  line: number;
+  endLine?: number;
+  commits: number;
+  churn: number;
+  feature: string;       // feature display name
+}
+
+// Line and symbol counts for one file; risk = lines × commits (with a churn window)
+export interface FileMetrics {
+  path: string;
+  feature: string;       // display name of the feature holding most of its symbols
+  lines: number;
+  symbols: number;
+  functions: number;
+  methods: number;
+  classes: number;
+  maxComplexity: number; // highest complexity of any function or method in the file
+  owners?: string[];     // from CODEOWNERS
+  commits?: number;
+  churn?: number;
+  risk?: number;
+}
+
+export interface SizedSymbol {
+  name: string;
+  kind: Symbol['kind'];
+  scope?: string;
+  file: string;
+  line: number;
+  lines: number;
+  complexity?: number;
+  methods?: number;
+  feature: string;       // feature display name
+  commits?: number;
+  risk?: number;         // lines × commits
+}
+
+export interface HotFile {
+  path: string;
+  commits: number;
+  churn: number;
+  feature: string;       // feature display name
+  package?: string;
+}
+
+// Per workspace package; `features` is one row of the package × feature matrix
+export interface PackageReport {
+  name: string;
+  dir: string;
+  manager?: string;      // npm, yarn, pnpm, gradle, go, cargo (absent for the root package)
+  functions: number;
+  methods: number;
+  classes: number;
+  total: number;
+  commits?: number;
+  churn?: number;
+  features: Record<string, number>;   // feature id → symbols
+}
+
+// How one test file was assigned to a feature (--tests)
+export interface TestFileMapping {
+  file: string;
+  feature: string;       // feature id holding most of the file's symbols
+  symbols: number;
+  mirrors?: string;      // production file it mirrors, when mapped by name
+}
+
+export interface TestSummary {
+  mapping: 'rules' | 'mirror';
+  files: number;
+  symbols: number;
+  mirrored: number;      // files mapped through a mirrored production file
+  untested: string[];    // feature ids with production symbols but no tests, hottest first
+  fileMappings: TestFileMapping[];
+}
+
+export type UnusedConfidence = 'high' | 'medium' | 'low';
+
+// A likely-dead symbol (--unused)
+export interface UnusedSymbol {
+  name: string;
+  kind: Symbol['kind'];
+  scope?: string;
+  file: string;
+  line: number;
+  lines?: number;
+  feature: string;       // feature id
+  confidence: UnusedConfidence;
+  reason: string;
+}
+
+export interface UnusedSummary {
+  scannedFiles: number;  // files searched for references, test files included
+  allowed: number;       // unreferenced symbols kept by an allowlist
+  high: number;
+  medium: number;
+  low: number;
+  symbols: UnusedSymbol[];
+}
+
+// Assignments file (--assignments, --emit-assignments): features pinned to
+// directories, files and individual symbols
+export interface Assignment {
+  feature: string;       // feature id; "uncategorized" keeps a symbol out of its file's feature
+  subFeature?: string;
+}
+
+export interface SymbolAssignment extends Assignment {
+  file: string;
+  name: string;
+  scope?: string;
+}
+
+export type AssignmentMode = 'override' | 'supplement';
+
+export interface Assignments {
+  version: 1;
+  mode?: AssignmentMode;   // override (default): assignments beat rules; supplement: only for uncategorized symbols
+  generatedAt?: string;
+  features?: Record<string, { name: string; category?: string }>;  // for ids the config doesn't define
+  directories?: Record<string, Assignment>;   // path prefix → assignment; the longest match wins
+  files?: Record<string, Assignment>;
+  symbols?: SymbolAssignment[];
+}
+
+export interface AssignmentSummary {
+  file: string;
+  mode: AssignmentMode;
+  directories: number;   // entries of each kind in the file
+  files: number;
+  symbols: number;
+  assigned: number;      // symbols whose feature came from an entry
+  uncovered: number;     // symbols no entry covers: new since the file was written
+  stale: number;         // entries matching no file or symbol any more
+  unassigned: { name: string; kind: Symbol['kind']; scope?: string; file: string; line: number; feature: string }[];  // uncovered, with the feature the rules gave them
+}
+
+export interface OwnershipSummary {
+  file: string;          // the CODEOWNERS file read
+  rules: number;
+  owners: number;        // distinct owners of files with symbols
+  files: number;         // files with symbols
+  unownedFiles: number;
+  fragmented: string[];  // feature ids whose files have MANY_OWNERS or more owners, most first
+  unowned: string[];     // feature ids with unowned files, most first
+  unownedHotFiles: HotFile[];  // with churn: the hottest files without an owner
+}
+
+// A commit analyzed by --at or --history
+export interface GitRef {
+  ref: string;           // as given, or the period label with --every
+  commit: string;
+  date: string;          // committer date, ISO 8601
+}
+
+export interface SymbolCounts {
+  functions: number;
+  methods: number;
+  classes: number;
+  total: number;
+}
+
+export interface HistoryPoint extends GitRef {
+  totals: SymbolCounts;
+  features: Record<string, SymbolCounts>;  // feature id → counts; features without symbols are left out
+}
+
+// Shape of the --history --json output
+export interface HistoryReport {
+  repo: string;
+  extractedAt: string;
+  every?: string;        // week, month or quarter with --every
+  features: { id: string; name: string; category: string }[];  // largest at the newest point first
+  points: HistoryPoint[];  // oldest first
+}
+
+// Per language; `features` maps feature id → symbols
+export interface LanguageReport {
+  language: string;
+  files: number;         // files with at least one symbol
+  functions: number;
+  methods: number;
+  classes: number;
+  total: number;
+  features: Record<string, number>;
+}
+
+// Shape of the --json output, and the input to `diff`
+export interface SnapshotSymbol {
+  name: string;
+  kind: Symbol['kind'];
+  file: string;
+  language?: string;
+  line: number;
+  endLine?: number;
+  lines?: number;
+  complexity?: number;
+  methods?: number;
+  scope?: string;
+  package?: string;
+  feature: string;
+  subFeature?: string;
+  owners?: string[];
+  commits?: number;
+  churn?: number;
+}
+
+export interface CensusSnapshot {
+  repo: string;
+  extractedAt: string;
+  at?: GitRef;           // with --at
+  since: string | null;
+  until?: string | null;
+  revRange?: string | null;
+  interval?: string;         // with --interval: week, month or quarter
+  totals: { symbols: number; functions: number; methods: number; classes: number };
+  coverageRate: string;      // e.g. "87.5%"
+  features: FeatureReport[];
+  overlaps?: RuleOverlap[];  // with --explain
+  hotSymbols?: HotSymbol[];  // with --since
+  coupling?: CouplingReport; // with --coupling
+  languages?: LanguageReport[];
+  packages?: PackageReport[];  // when workspaces are detected
+  dependencies?: DependencyReport;  // with --deps
+  tests?: TestSummary;       // with --tests
+  unused?: UnusedSummary;    // with --unused
+  assignments?: AssignmentSummary;  // with --assignments
+  codeowners?: OwnershipSummary;    // when the repo has a CODEOWNERS file
+  files?: FileMetrics[];     // every file with symbols, longest first
+  largestSymbols?: SizedSymbol[];
+  megaFiles?: FileMetrics[];
+  riskiestFiles?: FileMetrics[];  // with --since
+  symbols: SnapshotSymbol[];
+}
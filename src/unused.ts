@@ -0,0 +1,256 @@
+// ─── Likely-unused symbols (--unused) ───────────────────────────────────────
+//
+// Name-based reference counting. Every source file (test files included) is
+// tokenized with comments and string literals blanked (template literals keep
+// their `${...}` expressions), and a symbol counts as referenced when its
+// name appears anywhere other than its own declaration.
+// Export lists (`export { a }`, `export default a`, `module.exports = { a }`,
+// `exports.a = a`, Python's `__all__`) mark names as exported rather than
+// used, so re-exporting a function doesn't keep it alive; imports do count.
+// Matching by name is deliberately conservative: one `render` call anywhere
+// keeps every `render` alive. Each candidate gets a confidence:
+//   high    never referenced, and private to its file, module or class
+//   medium  never referenced, but exported or public, so code outside the
+//           repo may call it
+//   low     referenced only from tests, or named only in strings or comments
+//           (dynamic dispatch, routing tables, reflection)
+// Symbols in entry-point files, names matching a framework hook, and exports
+// of public API files are never reported (see UnusedConfig).
+
+import fs from 'fs';
+import path from 'path';
+import type { FeatureReport, Symbol, UnusedConfidence, UnusedConfig, UnusedSymbol } from './types';
+import { globToRegExp } from './classify';
+import { createExcludeMatcher } from './extract-ts';
+import { stripCode } from './metrics';
+
+// Names called by runtimes, frameworks and test runners rather than by repo code
+export const DEFAULT_HOOKS = [
+  'main', 'constructor', 'init', 'initialize', '__*__',
+  'toString', 'toJSON', 'valueOf', 'equals', 'hashCode', 'compareTo', 'String', 'Error', 'ServeHTTP',
+  'render', 'componentDidMount', 'componentDidUpdate', 'componentWillUnmount', 'shouldComponentUpdate', 'getDerivedStateFromProps',
+  'ngOnInit', 'ngOnChanges', 'ngOnDestroy', 'ngAfterViewInit',
+  'onCreate', 'onStart', 'onResume', 'onPause', 'onStop', 'onDestroy', 'viewDidLoad',
+  'setUp', 'tearDown', 'setUpClass', 'tearDownClass', 'test*', 'Test*', 'Benchmark*', 'Example*', 'Fuzz*',
+  'method_missing', 'respond_to_missing',
+];
+
+const IDENTIFIER_RE = /[A-Za-z_$][\w$]*/g;
+const JS_FILE = /\.(ts|tsx|mts|cts|js|jsx|mjs|cjs)$/;
+
+export interface UnusedInput {
+  repoRoot: string;
+  symbols: Symbol[];             // classified production symbols
+  files: string[];               // every file to scan for references, relative to repoRoot
+  isTestFile: (file: string) => boolean;
+  config?: UnusedConfig;
+}
+
+export interface UnusedResult {
+  symbols: UnusedSymbol[];       // candidates, by feature then file and line
+  scannedFiles: number;
+  allowed: number;               // unreferenced symbols kept by an allowlist
+}
+
+interface Mentions {
+  code: number;        // outside the declaration, in non-test files
+  tests: number;       // in test files
+  text: number;        // in strings and comments only
+}
+
+// Names a JS/TS file exports through export lists rather than declarations;
+// the lists are blanked so they don't count as references
+function takeExportLists(code: string, exported: Set<string>): string {
+  const blank = (m: string) => m.replace(/[^\n]/g, ' ');
+  return code
+    .replace(/\bexport\s+(?:type\s+)?\{([^}]*)\}(?:\s*from\b)?/g, (m, list: string) => {
+      for (const part of list.split(',')) {
+        const [local, alias] = part.trim().split(/\s+as\s+/);
+        if (local) exported.add(local.replace(/^type\s+/, ''));
+        if (alias) exported.add(alias);
+      }
+      return blank(m);
+    })
+    .replace(/\bexport\s+default\s+([A-Za-z_$][\w$]*)\s*;?\s*$/gm, (m, name: string) => {
+      exported.add(name);
+      return blank(m);
+    })
+    .replace(/\bmodule\.exports\s*=\s*\{([^}]*)\}/g, (m, list: string) => {
+      for (const part of list.split(',')) {
+        const [key, value] = part.split(':').map(p => p.trim());
+        if (key) exported.add(key);
+        if (value) exported.add(value);
+      }
+      return blank(m);
+    })
+    .replace(/\b(?:module\.)?exports\.([A-Za-z_$][\w$]*)\s*=\s*([A-Za-z_$][\w$]*)?/g, (m, key: string, value?: string) => {
+      exported.add(key);
+      if (value) exported.add(value);
+      return blank(m);
+    });
+}
+
+// Python's __all__ lists the module's public names as strings
+function pythonAll(source: string): Set<string> | null {
+  const m = source.match(/^__all__\s*=\s*[[(]([^\])]*)[\])]/m);
+  if (!m) return null;
+  return new Set([...m[1].matchAll(/['"]([A-Za-z_]\w*)['"]/g)].map(n => n[1]));
+}
+
+/**
+ * Whether code outside the symbol's file (or class) could call it, by the
+ * visibility rules of its language. Unknown languages count as public.
+ */
+function isPublic(sym: Symbol, declaration: string, exported: Set<string>, all: Set<string> | null): boolean {
+  const language = sym.language || '';
+  if (language === 'TypeScript' || language === 'JavaScript' || JS_FILE.test(sym.file)) {
+    if (sym.kind === 'method') return !/\bprivate\b/.test(declaration) && !sym.name.startsWith('#');
+    return sym.exported || /\bexport\b/.test(declaration) || exported.has(sym.name);
+  }
+  switch (language) {
+    case 'Python':
+      if (all && sym.kind !== 'method') return all.has(sym.name);
+      return !sym.name.startsWith('_');
+    case 'Go':
+      return /^[A-Z]/.test(sym.name);
+    case 'Rust':
+      return /\bpub\b/.test(declaration);
+    case 'Java':
+    case 'C#':
+      return /\b(public|protected)\b/.test(declaration);
+    case 'C':
+    case 'C++':
+      return !/\bstatic\b/.test(declaration);
+    default:
+      return !/\b(private|fileprivate|internal)\b/.test(declaration);
+  }
+}
+
+/** Candidate dead symbols with a confidence level, plus how many allowlists kept. */
+export function findUnused(input: UnusedInput): UnusedResult {
+  const { repoRoot, symbols, config = {} } = input;
+  const names = new Set(symbols.map(s => s.name));
+  const declared = new Map<string, number>();   // "file\0line\0name" → declarations left to skip
+  for (const sym of symbols) {
+    const key = `${sym.file}\0${sym.line}\0${sym.name}`;
+    declared.set(key, (declared.get(key) || 0) + 1);
+  }
+
+  const mentions = new Map<string, Mentions>();
+  const mention = (name: string) => {
+    let m = mentions.get(name);
+    if (!m) mentions.set(name, (m = { code: 0, tests: 0, text: 0 }));
+    return m;
+  };
+  const exportsByFile = new Map<string, Set<string>>();
+  const allByFile = new Map<string, Set<string> | null>();
+  const declarations = new Map<string, string[]>();   // file → raw lines, for files declaring symbols
+  const symbolFiles = new Set(symbols.map(s => s.file));
+
+  let scanned = 0;
+  for (const file of input.files) {
+    let source: string;
+    try {
+      source = fs.readFileSync(path.join(repoRoot, file), 'utf-8');
+    } catch {
+      continue;
+    }
+    scanned++;
+    const isTest = input.isTestFile(file);
+    const exported = new Set<string>();
+    const stripped = stripCode(source, file);
+    const code = JS_FILE.test(file) ? takeExportLists(stripped, exported) : stripped;
+    exportsByFile.set(file, exported);
+    const all = file.endsWith('.py') ? pythonAll(source) : null;
+    allByFile.set(file, all);
+    if (symbolFiles.has(file)) declarations.set(file, source.split('\n'));
+
+    // Code mentions, skipping each symbol's own declaration once
+    code.split('\n').forEach((text, i) => {
+      for (const [token] of text.matchAll(IDENTIFIER_RE)) {
+        if (!names.has(token)) continue;
+        const key = `${file}\0${i + 1}\0${token}`;
+        const left = declared.get(key);
+        if (left) {
+          declared.set(key, left - 1);
+          continue;
+        }
+        if (isTest) mention(token).tests++;
+        else mention(token).code++;
+      }
+    });
+
+    // Mentions in strings and comments: raw count minus the count once they're
+    // blanked, not counting __all__ entries
+    const tally = (text: string) => {
+      const counts = new Map<string, number>();
+      for (const [token] of text.matchAll(IDENTIFIER_RE)) {
+        if (names.has(token)) counts.set(token, (counts.get(token) || 0) + 1);
+      }
+      return counts;
+    };
+    const inCode = tally(stripped);
+    for (const [token, count] of tally(source)) {
+      const extra = count - (inCode.get(token) || 0) - (all?.has(token) ? 1 : 0);
+      if (extra > 0) mention(token).text += extra;
+    }
+  }
+
+  // Allowlists: entry-point files, hook names, and the exports of public API files
+  const isEntryPoint = createExcludeMatcher(config.entryPoints || []);
+  const isPublicApiFile = createExcludeMatcher(config.publicApi || []);
+  const hooks = [...DEFAULT_HOOKS, ...(config.hooks || [])].map(h => globToRegExp(h, false));
+  const publicApiNames = new Set<string>();
+  for (const [file, exported] of exportsByFile) {
+    if (isPublicApiFile(file)) for (const name of exported) publicApiNames.add(name);
+  }
+
+  const candidates: UnusedSymbol[] = [];
+  let allowed = 0;
+  for (const sym of symbols) {
+    const m = mentions.get(sym.name) || { code: 0, tests: 0, text: 0 };
+    // Test helpers are used by tests
+    if (m.code > 0 || (m.tests > 0 && input.isTestFile(sym.file))) continue;
+    const declaration = declarations.get(sym.file)?.[sym.line - 1] || '';
+    const pub = isPublic(sym, declaration, exportsByFile.get(sym.file) || new Set(), allByFile.get(sym.file) || null);
+    if (isEntryPoint(sym.file) || hooks.some(re => re.test(sym.name)) || publicApiNames.has(sym.name) || (pub && isPublicApiFile(sym.file))) {
+      allowed++;
+      continue;
+    }
+
+    let confidence: UnusedConfidence;
+    let reason: string;
+    if (m.tests > 0) {
+      confidence = 'low';
+      reason = `referenced only from tests (${m.tests}×)`;
+    } else if (m.text > 0) {
+      confidence = 'low';
+      reason = `named only in strings or comments (${m.text}×)`;
+    } else if (pub) {
+      confidence = 'medium';
+      reason = 'no references; public, so code outside the repo may use it';
+    } else {
+      confidence = 'high';
+      reason = 'no references';
+    }
+    candidates.push({
+      name: sym.name, kind: sym.kind, scope: sym.scope, file: sym.file, line: sym.line,
+      ...(sym.lines ? { lines: sym.lines } : {}),
+      feature: sym.feature, confidence, reason,
+    });
+  }
+
+  candidates.sort((a, b) => a.feature.localeCompare(b.feature) || a.file.localeCompare(b.file) || a.line - b.line);
+  return { symbols: candidates, scannedFiles: scanned, allowed };
+}
+
+/** Adds high / medium / low candidate counts to each feature. */
+export function applyUnusedCounts(features: Map<string, FeatureReport>, candidates: UnusedSymbol[]) {
+  for (const report of features.values()) {
+    if (report.total > 0) report.unused = { high: 0, medium: 0, low: 0 };
+  }
+  for (const c of candidates) {
+    const report = features.get(c.feature);
+    if (report?.unused) report.unused[c.confidence]++;
+  }
+}
@@ -0,0 +1,242 @@
+// ─── Workspace detection ────────────────────────────────────────────────────
+//
+// Finds package boundaries in a monorepo so symbols and churn can be grouped
+// by package as well as by feature. Reads the manifests each build tool
+// already maintains:
+//   npm / yarn  package.json "workspaces" (array or { packages: [...] })
+//   pnpm        pnpm-workspace.yaml "packages"
+//   Gradle      settings.gradle(.kts) include(...)
+//   Go          go.work "use" directives, else every go.mod in the tree
+//   Cargo       Cargo.toml [workspace] members / exclude
+// A file belongs to the package with the longest matching directory prefix;
+// files outside every package belong to ROOT_PACKAGE.
+
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { DEFAULT_EXCLUDES } from './ctags';
+import { globToRegExp } from './classify';
+import { createExcludeMatcher } from './extract-ts';
+import type { FileChurn, PackageReport, Symbol } from './types';
+
+export type WorkspaceManager = 'npm' | 'yarn' | 'pnpm' | 'gradle' | 'go' | 'cargo';
+
+export interface WorkspacePackage {
+  name: string;
+  dir: string;                 // relative to repo root, no trailing slash
+  manager: WorkspaceManager;
+}
+
+export const ROOT_PACKAGE = '(root)';
+
+// Directory walks stop here; manifests deeper than this are rare
+const MAX_DEPTH = 8;
+
+function readText(file: string): string | null {
+  try {
+    return fs.readFileSync(file, 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readJson(file: string): unknown {
+  const text = readText(file);
+  if (text === null) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+/** Every directory under the repo (relative paths), minus excluded ones. */
+function listDirectories(repoRoot: string, excludePaths: string[]): string[] {
+  const isExcluded = createExcludeMatcher([...DEFAULT_EXCLUDES, ...excludePaths]);
+  const dirs: string[] = [];
+  const walk = (rel: string, depth: number) => {
+    if (depth > MAX_DEPTH) return;
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(path.join(repoRoot, rel), { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      if (!entry.isDirectory() || entry.name.startsWith('.')) continue;
+      const child = rel ? `${rel}/${entry.name}` : entry.name;
+      if (isExcluded(child)) continue;
+      dirs.push(child);
+      walk(child, depth + 1);
+    }
+  };
+  walk('', 0);
+  return dirs;
+}
+
+// Directories matching workspace globs; "!pattern" entries remove matches
+function expandGlobs(patterns: string[], dirs: string[]): string[] {
+  const normalize = (p: string) => p.replace(/^\.\//, '').replace(/\/+$/, '');
+  const include = patterns.filter(p => !p.startsWith('!')).map(p => globToRegExp(normalize(p), true));
+  const exclude = patterns.filter(p => p.startsWith('!')).map(p => globToRegExp(normalize(p.slice(1)), true));
+  const anchored = (re: RegExp) => new RegExp(`^(?:${re.source})$`);
+  const inc = include.map(anchored);
+  const exc = exclude.map(anchored);
+  return dirs.filter(d => inc.some(re => re.test(d)) && !exc.some(re => re.test(d)));
+}
+
+function nodeWorkspaces(repoRoot: string, dirs: string[]): WorkspacePackage[] {
+  const rootPkg = readJson(path.join(repoRoot, 'package.json'));
+  let patterns: unknown = [];
+  let manager: WorkspaceManager = 'npm';
+
+  const pnpmFile = readText(path.join(repoRoot, 'pnpm-workspace.yaml'));
+  if (pnpmFile !== null) {
+    try {
+      const parsed: unknown = YAML.parse(pnpmFile);
+      if (isObject(parsed)) patterns = parsed.packages || [];
+    } catch {}
+    manager = 'pnpm';
+  } else if (isObject(rootPkg) && rootPkg.workspaces) {
+    const ws = rootPkg.workspaces;
+    patterns = Array.isArray(ws) ? ws : isObject(ws) ? ws.packages || [] : [];
+    if (fs.existsSync(path.join(repoRoot, 'yarn.lock'))) manager = 'yarn';
+  }
+  if (!Array.isArray(patterns)) return [];
+
+  return expandGlobs(patterns.filter((p): p is string => typeof p === 'string'), dirs)
+    .map(dir => ({ dir, pkg: readJson(path.join(repoRoot, dir, 'package.json')) }))
+    .filter((entry): entry is { dir: string; pkg: Record<string, unknown> } => isObject(entry.pkg))
+    .map(({ dir, pkg }) => ({ name: typeof pkg.name === 'string' ? pkg.name : dir, dir, manager }));
+}
+
+function gradleModules(repoRoot: string): WorkspacePackage[] {
+  const settings = readText(path.join(repoRoot, 'settings.gradle.kts')) ?? readText(path.join(repoRoot, 'settings.gradle'));
+  if (settings === null) return [];
+  const modules = new Set<string>();
+  const stripped = settings.replace(/\/\/.*$/gm, '').replace(/\/\*[\s\S]*?\*\//g, '');
+  // include(":app", ":lib:core") / include ':app', ':lib'
+  for (const call of stripped.matchAll(/\binclude\s*\(?((?:\s*,?\s*["'][^"']+["'])+)/g)) {
+    for (const m of call[1].matchAll(/["']([^"']+)["']/g)) modules.add(m[1]);
+  }
+  return [...modules]
+    .map(mod => ({ name: mod.startsWith(':') ? mod : `:${mod}`, dir: mod.replace(/^:/, '').replace(/:/g, '/') }))
+    .filter(({ dir }) => fs.existsSync(path.join(repoRoot, dir)))
+    .map(({ name, dir }) => ({ name, dir, manager: 'gradle' as const }));
+}
+
+function goModules(repoRoot: string, dirs: string[]): WorkspacePackage[] {
+  const work = readText(path.join(repoRoot, 'go.work'));
+  let moduleDirs: string[];
+  if (work !== null) {
+    moduleDirs = [];
+    const stripped = work.replace(/\/\/.*$/gm, '');
+    for (const block of stripped.matchAll(/\buse\s*\(([^)]*)\)/g)) {
+      moduleDirs.push(...block[1].split(/\s+/).filter(Boolean));
+    }
+    for (const single of stripped.matchAll(/\buse\s+([^\s(]+)/g)) moduleDirs.push(single[1]);
+    moduleDirs = moduleDirs.map(d => d.replace(/^\.\/?/, '').replace(/\/+$/, ''));
+  } else {
+    moduleDirs = ['', ...dirs].filter(d => fs.existsSync(path.join(repoRoot, d, 'go.mod')));
+  }
+
+  const packages: WorkspacePackage[] = [];
+  for (const dir of moduleDirs) {
+    const mod = readText(path.join(repoRoot, dir, 'go.mod'));
+    const name = mod?.match(/^module\s+(\S+)/m)?.[1];
+    if (mod !== null) packages.push({ name: name || dir || ROOT_PACKAGE, dir, manager: 'go' });
+  }
+  // A lone root module is the whole repo, not a workspace
+  return packages.length === 1 && packages[0].dir === '' ? [] : packages;
+}
+
+// The string array assigned to `key` inside the [workspace] table of Cargo.toml
+function cargoArray(toml: string, key: string): string[] {
+  const table = toml.match(/^\[workspace\]\s*$([\s\S]*?)(?=^\[|(?![\s\S]))/m)?.[1];
+  const value = table?.match(new RegExp(`^\\s*${key}\\s*=\\s*\\[([\\s\\S]*?)\\]`, 'm'))?.[1];
+  return value ? [...value.matchAll(/"([^"]+)"/g)].map(m => m[1]) : [];
+}
+
+function cargoWorkspace(repoRoot: string, dirs: string[]): WorkspacePackage[] {
+  const toml = readText(path.join(repoRoot, 'Cargo.toml'));
+  if (toml === null) return [];
+  const members = cargoArray(toml, 'members');
+  const excluded = cargoArray(toml, 'exclude');
+  return expandGlobs([...members, ...excluded.map(e => `!${e}`)], dirs)
+    .map(dir => ({ dir, manifest: readText(path.join(repoRoot, dir, 'Cargo.toml')) }))
+    .filter(({ manifest }) => manifest !== null)
+    .map(({ dir, manifest }) => ({
+      name: manifest!.match(/^\[package\][^[]*?^\s*name\s*=\s*"([^"]+)"/m)?.[1] || dir,
+      dir,
+      manager: 'cargo' as const,
+    }));
+}
+
+/** All workspace packages declared in the repo, across build tools. Empty for single-package repos. */
+export function detectWorkspaces(repoRoot: string, excludePaths: string[] = []): WorkspacePackage[] {
+  const dirs = listDirectories(repoRoot, excludePaths);
+  const byDir = new Map<string, WorkspacePackage>();
+  for (const pkg of [
+    ...nodeWorkspaces(repoRoot, dirs),
+    ...gradleModules(repoRoot),
+    ...goModules(repoRoot, dirs),
+    ...cargoWorkspace(repoRoot, dirs),
+  ]) {
+    // The first tool to claim a directory names it
+    if (!byDir.has(pkg.dir)) byDir.set(pkg.dir, pkg);
+  }
+  return [...byDir.values()].sort((a, b) => a.dir.localeCompare(b.dir));
+}
+
+/** Maps a repo-relative file path to its package name (longest directory prefix wins). */
+export function createPackageResolver(packages: WorkspacePackage[]): (file: string) => string {
+  const ordered = [...packages].sort((a, b) => b.dir.length - a.dir.length);
+  const cache = new Map<string, string>();
+  return (file: string) => {
+    const dir = path.posix.dirname(file);
+    let name = cache.get(dir);
+    if (name === undefined) {
+      name = ordered.find(p => p.dir === '' || dir === p.dir || dir.startsWith(p.dir + '/'))?.name ?? ROOT_PACKAGE;
+      cache.set(dir, name);
+    }
+    return name;
+  };
+}
+
+/**
+ * Symbol counts (split by feature) and churn per package. Packages without
+ * symbols or churn are kept so empty modules still show up.
+ */
+export function aggregatePackages(packages: WorkspacePackage[], symbols: Symbol[], churn: FileChurn[]): PackageReport[] {
+  const reports = new Map<string, PackageReport>();
+  for (const p of packages) {
+    reports.set(p.name, { name: p.name, dir: p.dir, manager: p.manager, functions: 0, methods: 0, classes: 0, total: 0, features: {} });
+  }
+  const reportFor = (name: string) => {
+    let report = reports.get(name);
+    if (!report) {
+      report = { name, dir: '', functions: 0, methods: 0, classes: 0, total: 0, features: {} };
+      reports.set(name, report);
+    }
+    return report;
+  };
+
+  for (const sym of symbols) {
+    const report = reportFor(sym.package || ROOT_PACKAGE);
+    if (sym.kind === 'function') report.functions++;
+    else if (sym.kind === 'method') report.methods++;
+    else if (sym.kind === 'class') report.classes++;
+    report.total++;
+    report.features[sym.feature] = (report.features[sym.feature] || 0) + 1;
+  }
+  for (const file of churn) {
+    const report = reportFor(file.package || ROOT_PACKAGE);
+    report.commits = (report.commits || 0) + file.commits;
+    report.churn = (report.churn || 0) + file.churn;
+  }
+  return [...reports.values()].sort((a, b) => b.total - a.total || (b.churn || 0) - (a.churn || 0));
+}
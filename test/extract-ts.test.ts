@@ -0,0 +1,33 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { extractFromSource } from '../src/extract-ts';
+
+const names = (file: string, source: string) => extractFromSource(file, source).map(s => `${s.kind} ${s.name}`);
+
+test('unwraps component wrappers', () => {
+  const source = [
+    "import React, { memo, forwardRef } from 'react';",
+    'export const Plain = () => null;',
+    'export const Memo = memo(() => null);',
+    'export const Qualified = React.memo(React.forwardRef((props, ref) => null));',
+    'export const Ref = forwardRef(function Ref(props, ref) { return null; });',
+    'export const Observed = observer(() => null);',
+    'export const Styled = styled(Plain)(() => null);',
+  ].join('\n');
+  assert.deepEqual(names('src/components.tsx', source), [
+    'function Plain', 'function Memo', 'function Qualified', 'function Ref', 'function Observed', 'function Styled',
+  ]);
+});
+
+test('does not extract the results of calls taking callbacks', () => {
+  const source = [
+    'export function main(items: number[]) {',
+    '  const doubled = items.map(x => x * 2);',
+    '  const total = items.filter(x => x > 0).map(x => x + 1).reduce((a, b) => a + b, 0);',
+    '  const t = setTimeout(() => {}, 10);',
+    '  const cleanup = useEffect(() => () => {}, []);',
+    '  return [doubled, total, t, cleanup];',
+    '}',
+  ].join('\n');
+  assert.deepEqual(names('src/main.ts', source), ['function main']);
+});
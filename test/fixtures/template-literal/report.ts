@@ -0,0 +1,16 @@
+function escape(value: string): string {
+  return value.replace(/[<>&]/g, c => `&#${c.charCodeAt(0)};`);
+}
+
+function label(count: number): string {
+  return count === 1 ? 'item' : 'items';
+}
+
+// Mentioned only here: unusedHelper
+function unusedHelper(): string {
+  return 'unused';
+}
+
+export function render(title: string, count: number): string {
+  return `<h1>${escape(title)}</h1><p>${count} ${`${label(count)}`} with {braces} and ${{ a: 1 }.a}</p>`;
+}
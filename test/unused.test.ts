@@ -0,0 +1,15 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { extractFromSource } from '../src/extract-ts';
+import { findUnused } from '../src/unused';
+
+const fixture = path.join(__dirname, 'fixtures', 'template-literal');
+
+test('functions called inside template literal substitutions are used', () => {
+  const symbols = extractFromSource('report.ts', fs.readFileSync(path.join(fixture, 'report.ts'), 'utf-8'))
+    .map(s => ({ ...s, feature: 'uncategorized', featureName: 'Uncategorized' }));
+  const result = findUnused({ repoRoot: fixture, symbols, files: ['report.ts'], isTestFile: () => false });
+  assert.deepEqual(result.symbols.map(s => s.name), ['unusedHelper']);
+});